@@ -8,10 +8,18 @@ export const Initialize = async () => {
         'grpc.max_send_message_length': -1,
     });
 
-    server.addService(
-        updateProto.nextmu.v1.UpdateService.service,
-        updateServiceServer,
+    /* grpc-js silently ignores handlers the service definition doesn't have, an outdated proto submodule would hide them */
+    const updateService = updateProto.nextmu.v1.UpdateService.service;
+    const missingMethods = Object.keys(updateServiceServer).filter(
+        (method) => !(method in updateService),
     );
+    if (missingMethods.length > 0) {
+        throw new Error(
+            `UpdateService definition lacks ${missingMethods.join(', ')}, update the proto submodule.`,
+        );
+    }
+
+    server.addService(updateService, updateServiceServer);
     server.bindAsync(
         `0.0.0.0:${process.env.GRPC_PORT || 8700}`,
         ServerCredentials.createInsecure(),
@@ -1,4 +1,4 @@
-import { ServerErrorResponse, ServerUnaryCall, status } from '@grpc/grpc-js';
+import { Metadata, ServerErrorResponse, status } from '@grpc/grpc-js';
 import * as oidc from 'oauth4webapi';
 import {
     authProvider,
@@ -10,8 +10,9 @@ type IRetrieveAuthResponse = [
     oidc.IntrospectionResponse | null,
     Partial<ServerErrorResponse> | null,
 ];
-export const retrieveAuthMetadata = async <RequestType, ResponseType>(
-    call: ServerUnaryCall<RequestType, ResponseType>,
+/* Unary and streaming calls carry the same metadata */
+export const retrieveAuthMetadata = async (
+    call: { metadata: Metadata },
     optional: boolean = false,
 ): Promise<IRetrieveAuthResponse> => {
     const authorizationMetadata = call.metadata.get('authorization');
@@ -1,28 +1,72 @@
 import * as grpc from '@grpc/grpc-js';
 import * as protoLoader from '@grpc/proto-loader';
 import { ObjectId, WithId } from 'mongodb';
+import { once } from 'node:events';
 import { z } from 'zod';
+import type { AuditEvent } from '~/proto/nextmu/v1/AuditEvent';
 import type { UpdateServiceHandlers } from '~/proto/nextmu/v1/UpdateService';
 import { Upload } from '~/proto/nextmu/v1/Upload';
 import type { Version } from '~/proto/nextmu/v1/Version';
+import { VersionState } from '~/proto/nextmu/v1/VersionState';
 import { VersionType } from '~/proto/nextmu/v1/VersionType';
 import type { ProtoGrpcType } from '~/proto/update';
 import {
+    auditVersionChange,
+    cancelScheduledVersion,
+    cancelUpload,
     createVersion,
+    deleteVersion,
+    diffVersions,
     editVersion,
+    finalizeUpload,
+    getAuditEvents,
+    getScheduledVersions,
     getUploads,
     getVersion,
+    getVersionDeletions,
+    getVersionReleaseNotes,
     getVersions,
-    processVersion,
+    openUploadStream,
+    promoteVersion,
+    publishVersion,
+    revokeVersion,
+    setReleaseNotes,
+    setVersionDeletions,
+    setVersionRequirements,
+    setVersionRollout,
     startUploadVersion,
+    submitUploadManifest,
     uploadVersionChunk,
+    watchVersion,
 } from '~/services/api';
+import { IMDBAuditEvent } from '~/services/mongodb/schemas/updates/audit';
 import { IMDBUpload } from '~/services/mongodb/schemas/updates/uploads';
 import { IMDBVersion } from '~/services/mongodb/schemas/updates/versions';
-import { getVersionAsString, toTimestamp } from '~/utils';
+import {
+    ReleaseChannel,
+    ReleaseNotesMaxLength,
+    UploadArchiveType,
+    UploadChecksumAlgorithm,
+    UploadMaxFileSize,
+} from '~/shared';
+import { ResponseError } from '~/shared/error';
+import {
+    LocaleRegex,
+    SortOrder,
+    VersionRegex,
+    VersionsSortField,
+} from '~/types/api/v1';
+import {
+    fromTimestamp,
+    getVersionAsString,
+    getVersionFromString,
+    normalizeLocalPath,
+    toTimestamp,
+} from '~/utils';
 import { retrieveAuthMetadata, validateRoles } from '../middlewares/auth';
+import { getAuditActor } from '../utils/audit';
 import { defaultProtoLoaderConfig } from '../utils/config';
-import { handlegRpcError } from '../utils/error';
+import { handlegRpcError, handlegRpcStreamError } from '../utils/error';
 
 const updateDefinition = protoLoader.loadSync(
     'proto/models/update.proto',
@@ -32,9 +76,40 @@ export const updateProto = grpc.loadPackageDefinition(
     updateDefinition,
 ) as unknown as ProtoGrpcType;
 
+const ZTimestamp = z
+    .object({
+        seconds: z.string().regex(/^\d+$/),
+        nanos: z.number().int().min(0),
+    })
+    .transform((v) => fromTimestamp(v));
+
 const ZListVersionsRequest = z.object({
     page: z.number().int().min(0),
     size: z.number().int().multipleOf(5).min(5).max(50),
+    states: z.array(z.nativeEnum(VersionState)).max(16),
+    minVersion: z
+        .string()
+        .regex(VersionRegex)
+        .transform((v) => getVersionFromString(v))
+        .or(z.literal('').transform(() => null)),
+    maxVersion: z
+        .string()
+        .regex(VersionRegex)
+        .transform((v) => getVersionFromString(v))
+        .or(z.literal('').transform(() => null)),
+    createdAfter: ZTimestamp.nullish(),
+    createdBefore: ZTimestamp.nullish(),
+    search: z.string().max(128),
+    sort: z
+        .nativeEnum(VersionsSortField)
+        .or(z.literal('').transform(() => VersionsSortField.CreatedAt)),
+    order: z
+        .nativeEnum(SortOrder)
+        .or(z.literal('').transform(() => SortOrder.Descending)),
+    cursor: z
+        .string()
+        .max(512)
+        .transform((v) => (v.length > 0 ? v : null)),
 });
 
 const ZFetchVersionRequest = z.object({
@@ -51,6 +126,14 @@ const ZCreateVersionRequest = z.object({
         .min(VersionType.REVISION)
         .max(VersionType.MAJOR),
     description: z.string().min(1).max(256),
+    channel: z
+        .nativeEnum(ReleaseChannel)
+        .or(z.literal('').transform(() => ReleaseChannel.Stable)),
+    version: z
+        .string()
+        .regex(VersionRegex)
+        .transform((v) => getVersionFromString(v))
+        .or(z.literal('').transform(() => null)),
 });
 
 const ZEditVersionRequest = z.object({
@@ -79,7 +162,7 @@ const ZStartUploadVersionRequest = z.object({
         .string()
         .length(64)
         .regex(/^[a-fA-F\d]{64}$/),
-    type: z.literal('application/zip'),
+    type: z.nativeEnum(UploadArchiveType),
     chunkSize: z.coerce
         .number()
         .multipleOf(2)
@@ -88,7 +171,44 @@ const ZStartUploadVersionRequest = z.object({
     fileSize: z.coerce
         .number()
         .min(1 * 1024)
-        .max(5 * 1024 * 1024 * 1024), // Min 1KB, Max 5GB
+        .max(UploadMaxFileSize), // Min 1KB
+});
+
+const ZSubmitUploadManifestRequest = z.object({
+    versionId: z
+        .string()
+        .refine((v) => ObjectId.isValid(v))
+        .transform((v) => new ObjectId(v)),
+    files: z
+        .array(
+            z.object({
+                localPath: z
+                    .string()
+                    .min(1)
+                    .max(1024)
+                    .transform((v, ctx) => {
+                        const localPath = normalizeLocalPath(v);
+                        if (localPath == null) {
+                            ctx.addIssue({
+                                code: z.ZodIssueCode.custom,
+                                message: `invalid path (${v})`,
+                            });
+                            return z.NEVER;
+                        }
+                        return localPath;
+                    }),
+                crc32: z
+                    .string()
+                    .regex(/^[a-fA-F\d]{8}$/)
+                    .transform((v) => v.toLowerCase()),
+                fileSize: z.coerce.number().int().min(0),
+            }),
+        )
+        .max(200000)
+        .refine(
+            (v) => new Set(v.map((file) => file.localPath)).size === v.length,
+            'duplicated path',
+        ),
 });
 
 const ZUploadVersionChunkRequest = z.object({
@@ -102,6 +222,42 @@ const ZUploadVersionChunkRequest = z.object({
         .transform((v) => new ObjectId(v)),
     offset: z.coerce.number().int().min(0),
     data: z.instanceof(Buffer),
+    checksum: z
+        .object({
+            algorithm: z.nativeEnum(UploadChecksumAlgorithm),
+            value: z.string().regex(/^[a-fA-F\d]+$/),
+        })
+        .refine(
+            (v) =>
+                v.value.length ===
+                (v.algorithm === UploadChecksumAlgorithm.CRC32C ? 8 : 64),
+        ),
+});
+
+const ZFinalizeUploadRequest = z.object({
+    uploadId: z
+        .string()
+        .refine((v) => ObjectId.isValid(v))
+        .transform((v) => new ObjectId(v)),
+    concurrentId: z
+        .string()
+        .refine((v) => ObjectId.isValid(v))
+        .transform((v) => new ObjectId(v)),
+    hash: z
+        .string()
+        .length(64)
+        .regex(/^[a-fA-F\d]{64}$/),
+});
+
+const ZCancelUploadRequest = z.object({
+    uploadId: z
+        .string()
+        .refine((v) => ObjectId.isValid(v))
+        .transform((v) => new ObjectId(v)),
+    concurrentId: z
+        .string()
+        .refine((v) => ObjectId.isValid(v))
+        .transform((v) => new ObjectId(v)),
 });
 
 const ZProcessVersionRequest = z.object({
@@ -109,6 +265,141 @@ const ZProcessVersionRequest = z.object({
         .string()
         .refine((v) => ObjectId.isValid(v))
         .transform((v) => new ObjectId(v)),
+    publishAt: ZTimestamp.nullish(),
+});
+
+const ZCancelScheduledVersionRequest = z.object({
+    id: z
+        .string()
+        .refine((v) => ObjectId.isValid(v))
+        .transform((v) => new ObjectId(v)),
+});
+
+const ZRevokeVersionRequest = z.object({
+    id: z
+        .string()
+        .refine((v) => ObjectId.isValid(v))
+        .transform((v) => new ObjectId(v)),
+});
+
+const ZDeleteVersionRequest = z.object({
+    id: z
+        .string()
+        .refine((v) => ObjectId.isValid(v))
+        .transform((v) => new ObjectId(v)),
+    force: z.boolean(),
+});
+
+const ZPromoteVersionRequest = z.object({
+    id: z
+        .string()
+        .refine((v) => ObjectId.isValid(v))
+        .transform((v) => new ObjectId(v)),
+    channel: z.nativeEnum(ReleaseChannel),
+});
+
+const ZSetVersionRolloutRequest = z.object({
+    id: z
+        .string()
+        .refine((v) => ObjectId.isValid(v))
+        .transform((v) => new ObjectId(v)),
+    percentage: z.number().int().min(0).max(100),
+});
+
+const ZSetVersionRequirementsRequest = z.object({
+    id: z
+        .string()
+        .refine((v) => ObjectId.isValid(v))
+        .transform((v) => new ObjectId(v)),
+    mandatory: z.boolean(),
+    minimumVersion: z.union([
+        z
+            .string()
+            .regex(VersionRegex)
+            .transform((v) => getVersionFromString(v)),
+        z.literal('').transform(() => null),
+    ]),
+});
+
+const ZDiffVersionsRequest = z.object({
+    id: z
+        .string()
+        .refine((v) => ObjectId.isValid(v))
+        .transform((v) => new ObjectId(v)),
+    targetId: z
+        .string()
+        .refine((v) => ObjectId.isValid(v))
+        .transform((v) => new ObjectId(v)),
+});
+
+const ZWatchVersionRequest = z.object({
+    id: z
+        .string()
+        .refine((v) => ObjectId.isValid(v))
+        .transform((v) => new ObjectId(v)),
+});
+
+const ZFetchVersionDeletionsRequest = z.object({
+    id: z
+        .string()
+        .refine((v) => ObjectId.isValid(v))
+        .transform((v) => new ObjectId(v)),
+});
+
+const ZSetVersionDeletionsRequest = z.object({
+    id: z
+        .string()
+        .refine((v) => ObjectId.isValid(v))
+        .transform((v) => new ObjectId(v)),
+    paths: z
+        .array(
+            z
+                .string()
+                .min(1)
+                .max(1024)
+                .transform((v, ctx) => {
+                    const localPath = normalizeLocalPath(v);
+                    if (localPath == null) {
+                        ctx.addIssue({
+                            code: z.ZodIssueCode.custom,
+                            message: `invalid path (${v})`,
+                        });
+                        return z.NEVER;
+                    }
+                    return localPath;
+                }),
+        )
+        .max(10000),
+});
+
+const ZListAuditEventsRequest = z.object({
+    versionId: z
+        .string()
+        .refine((v) => ObjectId.isValid(v))
+        .transform((v) => new ObjectId(v))
+        .or(z.literal('').transform(() => null)),
+    subject: z
+        .string()
+        .max(256)
+        .transform((v) => (v.length > 0 ? v : null)),
+    page: z.number().int().min(0),
+    size: z.number().int().multipleOf(5).min(5).max(50),
+});
+
+const ZFetchReleaseNotesRequest = z.object({
+    id: z
+        .string()
+        .refine((v) => ObjectId.isValid(v))
+        .transform((v) => new ObjectId(v)),
+});
+
+const ZSetReleaseNotesRequest = z.object({
+    id: z
+        .string()
+        .refine((v) => ObjectId.isValid(v))
+        .transform((v) => new ObjectId(v)),
+    locale: z.string().regex(LocaleRegex),
+    content: z.string().max(ReleaseNotesMaxLength),
 });
 
 const ViewRoleValidator = validateRoles(['update:view']);
@@ -122,12 +413,35 @@ const parseVersion = (
         version: getVersionAsString(version.version),
         description: version.description,
         state: version.state,
+        channel: version.channel ?? ReleaseChannel.Stable,
         filesCount: version.filesCount,
+        activateAt:
+            version.activateAt != null ? toTimestamp(version.activateAt) : null,
+        rollout: version.rollout ?? 100,
+        mandatory: version.mandatory ?? false,
+        minimumVersion:
+            version.minimumVersion != null
+                ? getVersionAsString(version.minimumVersion)
+                : '',
         createdAt: toTimestamp(version.createdAt),
         updatedAt: toTimestamp(version.updatedAt),
     };
 };
 
+const parseAuditEvent = (event: WithId<IMDBAuditEvent>): AuditEvent => {
+    return {
+        id: event._id.toHexString(),
+        versionId: event.versionId?.toHexString() ?? '',
+        action: event.action,
+        subject: event.actor.subject,
+        username: event.actor.username ?? '',
+        details: JSON.stringify(event.details),
+        before: event.before != null ? JSON.stringify(event.before) : '',
+        after: event.after != null ? JSON.stringify(event.after) : '',
+        createdAt: toTimestamp(event.createdAt),
+    };
+};
+
 const parseUpload = (
     upload: WithId<IMDBUpload> & { missingRanges: [number, number][] },
 ): Upload => {
@@ -164,10 +478,20 @@ export const updateServiceServer: UpdateServiceHandlers = {
         }
 
         try {
-            const { type, description } = parsed.data;
-            const result = await createVersion(
-                type as VersionType,
-                description,
+            const { type, description, channel, version } = parsed.data;
+            const result = await auditVersionChange(
+                getAuditActor(auth!),
+                'CreateVersion',
+                null,
+                parsed.data,
+                () =>
+                    createVersion(
+                        type as VersionType,
+                        description,
+                        channel,
+                        version,
+                    ),
+                (result) => result.id,
             );
 
             callback(null, {
@@ -200,7 +524,13 @@ export const updateServiceServer: UpdateServiceHandlers = {
 
         try {
             const { id, description } = parsed.data;
-            await editVersion(id, description);
+            await auditVersionChange(
+                getAuditActor(auth!),
+                'EditVersion',
+                id,
+                parsed.data,
+                () => editVersion(id, description),
+            );
             callback(null, {});
         } catch (error) {
             handlegRpcError(
@@ -258,12 +588,19 @@ export const updateServiceServer: UpdateServiceHandlers = {
         }
 
         try {
-            const { page, size } = parsed.data;
-            const result = await getVersions(page * size, size);
+            const { page, size, sort, order, cursor, ...filter } = parsed.data;
+            const result = await getVersions(filter, {
+                offset: page * size,
+                count: size,
+                cursor,
+                sort,
+                order,
+            });
 
             callback(null, {
                 availableCount: result.count,
                 versions: result.data.map((v) => parseVersion(v)),
+                nextCursor: result.nextCursor ?? '',
             });
         } catch (error) {
             handlegRpcError(
@@ -305,6 +642,44 @@ export const updateServiceServer: UpdateServiceHandlers = {
             );
         }
     },
+    WatchVersion: async (call) => {
+        const [auth, error] = await retrieveAuthMetadata(call);
+        if (error !== null) return call.emit('error', error);
+
+        const roles_error = await ViewRoleValidator(auth!);
+        if (roles_error != null) return call.emit('error', roles_error);
+
+        const parsed = ZWatchVersionRequest.safeParse(call.request);
+        if (parsed.success == false) {
+            return call.emit<grpc.ServiceError>('error', {
+                code: grpc.status.INVALID_ARGUMENT,
+                details: parsed.error.format()._errors.join('\n'),
+            });
+        }
+
+        const source = 'UpdateServiceServer.WatchVersion';
+        try {
+            const { id } = parsed.data;
+            const watcher = await watchVersion(id, {
+                onEvent: (event) => {
+                    call.write({
+                        state: event.state,
+                        upload: event.upload ?? null,
+                        job: event.job ?? null,
+                        deleted: event.deleted ?? false,
+                    });
+                    /* Nothing is left to watch */
+                    if (event.deleted) call.end();
+                },
+                onError: (error) => handlegRpcStreamError(source, call, error),
+            });
+
+            if (call.cancelled) watcher.close();
+            else call.on('cancelled', () => watcher.close());
+        } catch (error) {
+            handlegRpcStreamError(source, call, error);
+        }
+    },
     StartUploadVersion: async (call, callback) => {
         const [auth, error] = await retrieveAuthMetadata(call);
         if (error !== null) return callback(error);
@@ -322,12 +697,19 @@ export const updateServiceServer: UpdateServiceHandlers = {
 
         try {
             const { versionId, hash, type, chunkSize, fileSize } = parsed.data;
-            const response = await startUploadVersion(
+            const response = await auditVersionChange(
+                getAuditActor(auth!),
+                'StartUploadVersion',
                 versionId,
-                hash,
-                type,
-                chunkSize,
-                fileSize,
+                parsed.data,
+                () =>
+                    startUploadVersion(
+                        versionId,
+                        hash,
+                        type,
+                        chunkSize,
+                        fileSize,
+                    ),
             );
 
             callback(null, response);
@@ -340,6 +722,44 @@ export const updateServiceServer: UpdateServiceHandlers = {
             );
         }
     },
+    SubmitUploadManifest: async (call, callback) => {
+        const [auth, error] = await retrieveAuthMetadata(call);
+        if (error !== null) return callback(error);
+
+        const roles_error = await EditRoleValidator(auth!);
+        if (roles_error != null) return callback(roles_error);
+
+        const parsed = ZSubmitUploadManifestRequest.safeParse(call.request);
+        if (parsed.success == false) {
+            return call.emit<grpc.ServiceError>('error', {
+                code: grpc.status.INVALID_ARGUMENT,
+                details: parsed.error.format()._errors.join('\n'),
+            });
+        }
+
+        try {
+            const { versionId, files } = parsed.data;
+            const response = await auditVersionChange(
+                getAuditActor(auth!),
+                'SubmitUploadManifest',
+                versionId,
+                {
+                    versionId,
+                    filesCount: files.length,
+                },
+                () => submitUploadManifest(versionId, files),
+            );
+
+            callback(null, response);
+        } catch (error) {
+            handlegRpcError(
+                'UpdateServiceServer.SubmitUploadManifest',
+                call,
+                callback,
+                error,
+            );
+        }
+    },
     UploadVersionChunk: async (call, callback) => {
         const [auth, error] = await retrieveAuthMetadata(call);
         if (error !== null) return callback(error);
@@ -356,12 +776,14 @@ export const updateServiceServer: UpdateServiceHandlers = {
         }
 
         try {
-            const { uploadId, concurrentId, offset, data } = parsed.data;
+            const { uploadId, concurrentId, offset, data, checksum } =
+                parsed.data;
             const response = await uploadVersionChunk(
                 uploadId,
                 concurrentId,
                 offset,
                 data,
+                checksum,
             );
 
             callback(null, response);
@@ -374,6 +796,148 @@ export const updateServiceServer: UpdateServiceHandlers = {
             );
         }
     },
+    UploadVersionStream: async (call) => {
+        const [auth, error] = await retrieveAuthMetadata(call);
+        if (error !== null) return call.emit('error', error);
+
+        const roles_error = await EditRoleValidator(auth!);
+        if (roles_error != null) return call.emit('error', roles_error);
+
+        const source = 'UpdateServiceServer.UploadVersionStream';
+        let stream: Awaited<ReturnType<typeof openUploadStream>> | null = null;
+
+        const acknowledge = async (
+            missingRanges: [number, number][],
+            finished: boolean,
+        ) => {
+            const written = call.write({
+                missingRanges: missingRanges.map(([start, end]) => ({
+                    start,
+                    end,
+                })),
+                finished,
+            });
+            if (!written) await once(call, 'drain');
+        };
+
+        try {
+            /* The call isn't destroyed when the loop is left so an error status can still be sent */
+            for await (const request of call.iterator({
+                destroyOnReturn: false,
+            })) {
+                const parsed = ZUploadVersionChunkRequest.safeParse(request);
+                if (parsed.success == false) {
+                    throw new ResponseError(
+                        grpc.status.INVALID_ARGUMENT,
+                        parsed.error.format()._errors.join('\n'),
+                    );
+                }
+
+                const { uploadId, concurrentId, offset, data, checksum } =
+                    parsed.data;
+                if (stream == null) {
+                    stream = await openUploadStream(uploadId, concurrentId);
+                } else if (
+                    !stream.upload._id.equals(uploadId) ||
+                    !stream.upload.concurrentId.equals(concurrentId)
+                ) {
+                    throw new ResponseError(
+                        grpc.status.INVALID_ARGUMENT,
+                        'every chunk must belong to the same upload',
+                    );
+                }
+
+                const missingRanges = await stream.write(
+                    offset,
+                    data,
+                    checksum,
+                );
+                if (missingRanges != null) {
+                    await acknowledge(missingRanges, false);
+                }
+            }
+
+            if (stream != null) {
+                const { missingRanges, finished } = await stream.finish();
+                await acknowledge(missingRanges, finished);
+            }
+            call.end();
+        } catch (error) {
+            /* Chunks stored before the error are kept, the upload is resumed from them */
+            await stream?.close();
+            handlegRpcStreamError(source, call, error);
+        }
+    },
+    FinalizeUpload: async (call, callback) => {
+        const [auth, error] = await retrieveAuthMetadata(call);
+        if (error !== null) return callback(error);
+
+        const roles_error = await EditRoleValidator(auth!);
+        if (roles_error != null) return callback(roles_error);
+
+        const parsed = ZFinalizeUploadRequest.safeParse(call.request);
+        if (parsed.success == false) {
+            return call.emit<grpc.ServiceError>('error', {
+                code: grpc.status.INVALID_ARGUMENT,
+                details: parsed.error.format()._errors.join('\n'),
+            });
+        }
+
+        try {
+            const { uploadId, concurrentId, hash } = parsed.data;
+            await auditVersionChange(
+                getAuditActor(auth!),
+                'FinalizeUpload',
+                null,
+                parsed.data,
+                () => finalizeUpload(uploadId, concurrentId, hash),
+                (upload) => upload.versionId,
+            );
+            callback(null, {});
+        } catch (error) {
+            handlegRpcError(
+                'UpdateServiceServer.FinalizeUpload',
+                call,
+                callback,
+                error,
+            );
+        }
+    },
+    CancelUpload: async (call, callback) => {
+        const [auth, error] = await retrieveAuthMetadata(call);
+        if (error !== null) return callback(error);
+
+        const roles_error = await EditRoleValidator(auth!);
+        if (roles_error != null) return callback(roles_error);
+
+        const parsed = ZCancelUploadRequest.safeParse(call.request);
+        if (parsed.success == false) {
+            return call.emit<grpc.ServiceError>('error', {
+                code: grpc.status.INVALID_ARGUMENT,
+                details: parsed.error.format()._errors.join('\n'),
+            });
+        }
+
+        try {
+            const { uploadId, concurrentId } = parsed.data;
+            await auditVersionChange(
+                getAuditActor(auth!),
+                'CancelUpload',
+                null,
+                parsed.data,
+                () => cancelUpload(uploadId, concurrentId),
+                (upload) => upload.versionId,
+            );
+            callback(null, {});
+        } catch (error) {
+            handlegRpcError(
+                'UpdateServiceServer.CancelUpload',
+                call,
+                callback,
+                error,
+            );
+        }
+    },
     ProcessVersion: async (call, callback) => {
         const [auth, error] = await retrieveAuthMetadata(call);
         if (error !== null) return callback(error);
@@ -390,8 +954,14 @@ export const updateServiceServer: UpdateServiceHandlers = {
         }
 
         try {
-            const { id } = parsed.data;
-            await processVersion(id.toHexString());
+            const { id, publishAt } = parsed.data;
+            await auditVersionChange(
+                getAuditActor(auth!),
+                'ProcessVersion',
+                id,
+                parsed.data,
+                () => publishVersion(id, publishAt ?? null),
+            );
             callback(null, {});
         } catch (error) {
             handlegRpcError(
@@ -402,4 +972,429 @@ export const updateServiceServer: UpdateServiceHandlers = {
             );
         }
     },
+    RevokeVersion: async (call, callback) => {
+        const [auth, error] = await retrieveAuthMetadata(call);
+        if (error !== null) return callback(error);
+
+        const roles_error = await EditRoleValidator(auth!);
+        if (roles_error != null) return callback(roles_error);
+
+        const parsed = ZRevokeVersionRequest.safeParse(call.request);
+        if (parsed.success == false) {
+            return call.emit<grpc.ServiceError>('error', {
+                code: grpc.status.INVALID_ARGUMENT,
+                details: parsed.error.format()._errors.join('\n'),
+            });
+        }
+
+        try {
+            const { id } = parsed.data;
+            await auditVersionChange(
+                getAuditActor(auth!),
+                'RevokeVersion',
+                id,
+                parsed.data,
+                () => revokeVersion(id),
+            );
+            callback(null, {});
+        } catch (error) {
+            handlegRpcError(
+                'UpdateServiceServer.RevokeVersion',
+                call,
+                callback,
+                error,
+            );
+        }
+    },
+    DeleteVersion: async (call, callback) => {
+        const [auth, error] = await retrieveAuthMetadata(call);
+        if (error !== null) return callback(error);
+
+        const roles_error = await EditRoleValidator(auth!);
+        if (roles_error != null) return callback(roles_error);
+
+        const parsed = ZDeleteVersionRequest.safeParse(call.request);
+        if (parsed.success == false) {
+            return call.emit<grpc.ServiceError>('error', {
+                code: grpc.status.INVALID_ARGUMENT,
+                details: parsed.error.format()._errors.join('\n'),
+            });
+        }
+
+        try {
+            const { id, force } = parsed.data;
+            await auditVersionChange(
+                getAuditActor(auth!),
+                'DeleteVersion',
+                id,
+                parsed.data,
+                () => deleteVersion(id, force),
+            );
+            callback(null, {});
+        } catch (error) {
+            handlegRpcError(
+                'UpdateServiceServer.DeleteVersion',
+                call,
+                callback,
+                error,
+            );
+        }
+    },
+    PromoteVersion: async (call, callback) => {
+        const [auth, error] = await retrieveAuthMetadata(call);
+        if (error !== null) return callback(error);
+
+        const roles_error = await EditRoleValidator(auth!);
+        if (roles_error != null) return callback(roles_error);
+
+        const parsed = ZPromoteVersionRequest.safeParse(call.request);
+        if (parsed.success == false) {
+            return call.emit<grpc.ServiceError>('error', {
+                code: grpc.status.INVALID_ARGUMENT,
+                details: parsed.error.format()._errors.join('\n'),
+            });
+        }
+
+        try {
+            const { id, channel } = parsed.data;
+            await auditVersionChange(
+                getAuditActor(auth!),
+                'PromoteVersion',
+                id,
+                parsed.data,
+                () => promoteVersion(id, channel),
+            );
+            callback(null, {});
+        } catch (error) {
+            handlegRpcError(
+                'UpdateServiceServer.PromoteVersion',
+                call,
+                callback,
+                error,
+            );
+        }
+    },
+    ListScheduledVersions: async (call, callback) => {
+        const [auth, error] = await retrieveAuthMetadata(call);
+        if (error !== null) return callback(error);
+
+        const roles_error = await ViewRoleValidator(auth!);
+        if (roles_error != null) return callback(roles_error);
+
+        try {
+            const versions = await getScheduledVersions();
+
+            callback(null, {
+                versions: versions.map((v) => parseVersion(v)),
+            });
+        } catch (error) {
+            handlegRpcError(
+                'UpdateServiceServer.ListScheduledVersions',
+                call,
+                callback,
+                error,
+            );
+        }
+    },
+    CancelScheduledVersion: async (call, callback) => {
+        const [auth, error] = await retrieveAuthMetadata(call);
+        if (error !== null) return callback(error);
+
+        const roles_error = await EditRoleValidator(auth!);
+        if (roles_error != null) return callback(roles_error);
+
+        const parsed = ZCancelScheduledVersionRequest.safeParse(call.request);
+        if (parsed.success == false) {
+            return call.emit<grpc.ServiceError>('error', {
+                code: grpc.status.INVALID_ARGUMENT,
+                details: parsed.error.format()._errors.join('\n'),
+            });
+        }
+
+        try {
+            const { id } = parsed.data;
+            await auditVersionChange(
+                getAuditActor(auth!),
+                'CancelScheduledVersion',
+                id,
+                parsed.data,
+                () => cancelScheduledVersion(id),
+            );
+            callback(null, {});
+        } catch (error) {
+            handlegRpcError(
+                'UpdateServiceServer.CancelScheduledVersion',
+                call,
+                callback,
+                error,
+            );
+        }
+    },
+    SetVersionRollout: async (call, callback) => {
+        const [auth, error] = await retrieveAuthMetadata(call);
+        if (error !== null) return callback(error);
+
+        const roles_error = await EditRoleValidator(auth!);
+        if (roles_error != null) return callback(roles_error);
+
+        const parsed = ZSetVersionRolloutRequest.safeParse(call.request);
+        if (parsed.success == false) {
+            return call.emit<grpc.ServiceError>('error', {
+                code: grpc.status.INVALID_ARGUMENT,
+                details: parsed.error.format()._errors.join('\n'),
+            });
+        }
+
+        try {
+            const { id, percentage } = parsed.data;
+            await auditVersionChange(
+                getAuditActor(auth!),
+                'SetVersionRollout',
+                id,
+                parsed.data,
+                () => setVersionRollout(id, percentage),
+            );
+            callback(null, {});
+        } catch (error) {
+            handlegRpcError(
+                'UpdateServiceServer.SetVersionRollout',
+                call,
+                callback,
+                error,
+            );
+        }
+    },
+    SetVersionRequirements: async (call, callback) => {
+        const [auth, error] = await retrieveAuthMetadata(call);
+        if (error !== null) return callback(error);
+
+        const roles_error = await EditRoleValidator(auth!);
+        if (roles_error != null) return callback(roles_error);
+
+        const parsed = ZSetVersionRequirementsRequest.safeParse(call.request);
+        if (parsed.success == false) {
+            return call.emit<grpc.ServiceError>('error', {
+                code: grpc.status.INVALID_ARGUMENT,
+                details: parsed.error.format()._errors.join('\n'),
+            });
+        }
+
+        try {
+            const { id, mandatory, minimumVersion } = parsed.data;
+            await auditVersionChange(
+                getAuditActor(auth!),
+                'SetVersionRequirements',
+                id,
+                parsed.data,
+                () => setVersionRequirements(id, mandatory, minimumVersion),
+            );
+            callback(null, {});
+        } catch (error) {
+            handlegRpcError(
+                'UpdateServiceServer.SetVersionRequirements',
+                call,
+                callback,
+                error,
+            );
+        }
+    },
+    DiffVersions: async (call, callback) => {
+        const [auth, error] = await retrieveAuthMetadata(call);
+        if (error !== null) return callback(error);
+
+        const roles_error = await ViewRoleValidator(auth!);
+        if (roles_error != null) return callback(roles_error);
+
+        const parsed = ZDiffVersionsRequest.safeParse(call.request);
+        if (parsed.success == false) {
+            return call.emit<grpc.ServiceError>('error', {
+                code: grpc.status.INVALID_ARGUMENT,
+                details: parsed.error.format()._errors.join('\n'),
+            });
+        }
+
+        try {
+            const { id, targetId } = parsed.data;
+            const diff = await diffVersions(id, targetId);
+            callback(null, diff);
+        } catch (error) {
+            handlegRpcError(
+                'UpdateServiceServer.DiffVersions',
+                call,
+                callback,
+                error,
+            );
+        }
+    },
+    FetchVersionDeletions: async (call, callback) => {
+        const [auth, error] = await retrieveAuthMetadata(call);
+        if (error !== null) return callback(error);
+
+        const roles_error = await ViewRoleValidator(auth!);
+        if (roles_error != null) return callback(roles_error);
+
+        const parsed = ZFetchVersionDeletionsRequest.safeParse(call.request);
+        if (parsed.success == false) {
+            return call.emit<grpc.ServiceError>('error', {
+                code: grpc.status.INVALID_ARGUMENT,
+                details: parsed.error.format()._errors.join('\n'),
+            });
+        }
+
+        try {
+            const { id } = parsed.data;
+            const deletions = await getVersionDeletions(id);
+
+            callback(null, {
+                paths: deletions.map((deletion) => deletion.localPath),
+            });
+        } catch (error) {
+            handlegRpcError(
+                'UpdateServiceServer.FetchVersionDeletions',
+                call,
+                callback,
+                error,
+            );
+        }
+    },
+    SetVersionDeletions: async (call, callback) => {
+        const [auth, error] = await retrieveAuthMetadata(call);
+        if (error !== null) return callback(error);
+
+        const roles_error = await EditRoleValidator(auth!);
+        if (roles_error != null) return callback(roles_error);
+
+        const parsed = ZSetVersionDeletionsRequest.safeParse(call.request);
+        if (parsed.success == false) {
+            return call.emit<grpc.ServiceError>('error', {
+                code: grpc.status.INVALID_ARGUMENT,
+                details: parsed.error.format()._errors.join('\n'),
+            });
+        }
+
+        try {
+            const { id, paths } = parsed.data;
+            await auditVersionChange(
+                getAuditActor(auth!),
+                'SetVersionDeletions',
+                id,
+                parsed.data,
+                () => setVersionDeletions(id, paths),
+            );
+            callback(null, {});
+        } catch (error) {
+            handlegRpcError(
+                'UpdateServiceServer.SetVersionDeletions',
+                call,
+                callback,
+                error,
+            );
+        }
+    },
+    FetchReleaseNotes: async (call, callback) => {
+        const [auth, error] = await retrieveAuthMetadata(call);
+        if (error !== null) return callback(error);
+
+        const roles_error = await ViewRoleValidator(auth!);
+        if (roles_error != null) return callback(roles_error);
+
+        const parsed = ZFetchReleaseNotesRequest.safeParse(call.request);
+        if (parsed.success == false) {
+            return call.emit<grpc.ServiceError>('error', {
+                code: grpc.status.INVALID_ARGUMENT,
+                details: parsed.error.format()._errors.join('\n'),
+            });
+        }
+
+        try {
+            const { id } = parsed.data;
+            const notes = await getVersionReleaseNotes(id);
+
+            callback(null, {
+                notes: notes.map((note) => ({
+                    locale: note.locale,
+                    content: note.content,
+                    updatedAt: toTimestamp(note.updatedAt),
+                })),
+            });
+        } catch (error) {
+            handlegRpcError(
+                'UpdateServiceServer.FetchReleaseNotes',
+                call,
+                callback,
+                error,
+            );
+        }
+    },
+    SetReleaseNotes: async (call, callback) => {
+        const [auth, error] = await retrieveAuthMetadata(call);
+        if (error !== null) return callback(error);
+
+        const roles_error = await EditRoleValidator(auth!);
+        if (roles_error != null) return callback(roles_error);
+
+        const parsed = ZSetReleaseNotesRequest.safeParse(call.request);
+        if (parsed.success == false) {
+            return call.emit<grpc.ServiceError>('error', {
+                code: grpc.status.INVALID_ARGUMENT,
+                details: parsed.error.format()._errors.join('\n'),
+            });
+        }
+
+        try {
+            const { id, locale, content } = parsed.data;
+            await auditVersionChange(
+                getAuditActor(auth!),
+                'SetReleaseNotes',
+                id,
+                parsed.data,
+                () => setReleaseNotes(id, locale, content),
+            );
+            callback(null, {});
+        } catch (error) {
+            handlegRpcError(
+                'UpdateServiceServer.SetReleaseNotes',
+                call,
+                callback,
+                error,
+            );
+        }
+    },
+    ListAuditEvents: async (call, callback) => {
+        const [auth, error] = await retrieveAuthMetadata(call);
+        if (error !== null) return callback(error);
+
+        const roles_error = await ViewRoleValidator(auth!);
+        if (roles_error != null) return callback(roles_error);
+
+        const parsed = ZListAuditEventsRequest.safeParse(call.request);
+        if (parsed.success == false) {
+            return call.emit<grpc.ServiceError>('error', {
+                code: grpc.status.INVALID_ARGUMENT,
+                details: parsed.error.format()._errors.join('\n'),
+            });
+        }
+
+        try {
+            const { versionId, subject, page, size } = parsed.data;
+            const result = await getAuditEvents(
+                versionId,
+                subject,
+                page * size,
+                size,
+            );
+
+            callback(null, {
+                availableCount: result.count,
+                events: result.data.map((e) => parseAuditEvent(e)),
+            });
+        } catch (error) {
+            handlegRpcError(
+                'UpdateServiceServer.ListAuditEvents',
+                call,
+                callback,
+                error,
+            );
+        }
+    },
 };
@@ -0,0 +1,11 @@
+import * as oidc from 'oauth4webapi';
+import type { IAuditActor } from '~/services/mongodb/schemas/updates/audit';
+
+export const getAuditActor = (
+    auth: oidc.IntrospectionResponse,
+): IAuditActor => {
+    return {
+        subject: auth.sub ?? auth.client_id ?? 'unknown',
+        ...(auth.username != null ? { username: auth.username } : {}),
+    };
+};
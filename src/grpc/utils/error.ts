@@ -1,4 +1,10 @@
-import { ServerUnaryCall, sendUnaryData, status } from '@grpc/grpc-js';
+import {
+    ServerDuplexStream,
+    ServerUnaryCall,
+    ServerWritableStream,
+    sendUnaryData,
+    status,
+} from '@grpc/grpc-js';
 import { logger } from '~/logger';
 import { ErrorSourceType, ResponseError } from '~/shared/error';
 
@@ -25,3 +31,28 @@ export const handlegRpcError = <RequestType, ResponseType>(
         });
     }
 };
+
+export const handlegRpcStreamError = <RequestType, ResponseType>(
+    source: ErrorSourceType | string,
+    call:
+        | ServerDuplexStream<RequestType, ResponseType>
+        | ServerWritableStream<RequestType, ResponseType>,
+    error: unknown,
+) => {
+    if (error instanceof ResponseError) {
+        logger.error(
+            `[${source}] ${call.getPath()} : ${error.log || error.message}`,
+        );
+    } else if (error instanceof Error) {
+        logger.error(`[${source}] ${call.getPath()} : ${error.message}`);
+    }
+
+    if (error instanceof ResponseError) {
+        return call.emit('error', error.grpc);
+    } else {
+        return call.emit('error', {
+            code: status.UNAVAILABLE,
+            details: `service is unavailable, try again later`,
+        });
+    }
+};
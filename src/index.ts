@@ -3,9 +3,14 @@ import './loadenv';
 import * as gRPC from '~/grpc';
 import { logger } from '~/logger';
 import app from '~/server';
+import { scheduleCleanupUploads } from '~/services/bullmq';
+import * as MongoDB from '~/services/mongodb';
 
 const port = Number(process.env.API_PORT || 8701);
 async function start() {
+    await MongoDB.update.assertReplicaSet();
+    await MongoDB.update.createIndexes();
+    await scheduleCleanupUploads();
     await gRPC.Initialize();
     app.listen(port, () =>
         logger.info('Express server started on port: ' + port),
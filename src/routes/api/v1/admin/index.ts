@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { requireAuth } from '~/middlewares/auth';
+import UploadsRouter from './uploads';
+import VersionsRouter from './versions';
+
+const router = Router();
+router.use(requireAuth);
+router.use('/uploads', UploadsRouter);
+router.use('/versions', VersionsRouter);
+
+export default router;
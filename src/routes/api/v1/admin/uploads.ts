@@ -0,0 +1,170 @@
+import { NextFunction, Request, Response, Router } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { getAuditActor } from '~/grpc/utils/audit';
+import { requireRoles } from '~/middlewares/auth';
+import {
+    auditVersionChange,
+    getUploadOffset,
+    startUploadVersion,
+    writeUploadStream,
+} from '~/services/api';
+import { UploadMaxFileSize } from '~/shared';
+import { ErrorSourceType, handleError } from '~/shared/error';
+import { ZCreateUploadRequest, ZUploadRequest } from '~/types/api/v1';
+
+/* tus resumable upload protocol with the creation extension, https://tus.io/protocols/resumable-upload */
+const TusVersion = '1.0.0';
+const TusExtensions = ['creation'];
+const TusExposedHeaders = [
+    'Location',
+    'Tus-Resumable',
+    'Tus-Version',
+    'Upload-Offset',
+    'Upload-Length',
+    'Upload-Chunk-Size',
+];
+
+/*
+    OPTIONS requests are answered by the CORS middleware before reaching the router,
+    the server capabilities are set on the response before it.
+*/
+export const setTusOptionsHeaders = (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+) => {
+    res.setHeader('Tus-Resumable', TusVersion);
+    res.setHeader('Tus-Version', TusVersion);
+    res.setHeader('Tus-Extension', TusExtensions.join(','));
+    res.setHeader('Tus-Max-Size', UploadMaxFileSize);
+    return next();
+};
+
+const router = Router();
+
+const EditRoleValidator = requireRoles(['update:edit']);
+
+/* Upload-Metadata is a list of comma separated keys followed by their base64 value */
+const parseUploadMetadata = (header: string | undefined) => {
+    const metadata: Record<string, string> = {};
+    if (header == null) return metadata;
+
+    for (const pair of header.split(',')) {
+        const [key, value] = pair.trim().split(' ');
+        if (!key) continue;
+        metadata[key] =
+            value != null ? Buffer.from(value, 'base64').toString('utf8') : '';
+    }
+
+    return metadata;
+};
+
+router.use((req: Request, res: Response, next: NextFunction) => {
+    res.setHeader('Tus-Resumable', TusVersion);
+    res.setHeader('Access-Control-Expose-Headers', TusExposedHeaders.join(','));
+    if (req.header('Tus-Resumable') !== TusVersion) {
+        res.setHeader('Tus-Version', TusVersion);
+        return res.status(StatusCodes.PRECONDITION_FAILED).send();
+    }
+
+    return next();
+});
+
+router.post('/', EditRoleValidator, async (req: Request, res: Response) => {
+    const parsed = ZCreateUploadRequest.safeParse({
+        ...parseUploadMetadata(req.header('Upload-Metadata')),
+        fileSize: req.header('Upload-Length'),
+    });
+    if (!parsed.success) {
+        return res.status(StatusCodes.BAD_REQUEST).send();
+    }
+
+    try {
+        const { versionId, hash, filetype, chunkSize, fileSize } = parsed.data;
+        const { uploadId, concurrentId } = await auditVersionChange(
+            getAuditActor(req.auth!),
+            'StartUploadVersion',
+            versionId,
+            parsed.data,
+            () =>
+                startUploadVersion(
+                    versionId,
+                    hash,
+                    filetype,
+                    chunkSize,
+                    fileSize,
+                ),
+        );
+
+        /* PATCH bodies must end on a chunk boundary, except the last one */
+        res.setHeader('Location', `${req.baseUrl}/${uploadId}/${concurrentId}`);
+        res.setHeader('Upload-Chunk-Size', chunkSize);
+        return res.status(StatusCodes.CREATED).send();
+    } catch (error: unknown) {
+        handleError(ErrorSourceType.Route, req, res, error);
+    }
+});
+
+router.head(
+    '/:uploadId/:concurrentId',
+    EditRoleValidator,
+    async (req: Request, res: Response) => {
+        const parsed = ZUploadRequest.safeParse(req.params);
+        if (!parsed.success) {
+            return res.status(StatusCodes.NOT_FOUND).send();
+        }
+
+        try {
+            const { uploadId, concurrentId } = parsed.data;
+            const { upload, offset } = await getUploadOffset(
+                uploadId,
+                concurrentId,
+            );
+
+            res.setHeader('Cache-Control', 'no-store');
+            res.setHeader('Upload-Offset', offset);
+            res.setHeader('Upload-Length', upload.fileSize);
+            res.setHeader('Upload-Chunk-Size', upload.chunkSize);
+            return res.status(StatusCodes.OK).send();
+        } catch (error: unknown) {
+            handleError(ErrorSourceType.Route, req, res, error);
+        }
+    },
+);
+
+router.patch(
+    '/:uploadId/:concurrentId',
+    EditRoleValidator,
+    async (req: Request, res: Response) => {
+        const parsed = ZUploadRequest.safeParse(req.params);
+        if (!parsed.success) {
+            return res.status(StatusCodes.NOT_FOUND).send();
+        }
+
+        if (req.header('Content-Type') !== 'application/offset+octet-stream') {
+            return res.status(StatusCodes.UNSUPPORTED_MEDIA_TYPE).send();
+        }
+
+        const offset = Number(req.header('Upload-Offset'));
+        if (!Number.isSafeInteger(offset) || offset < 0) {
+            return res.status(StatusCodes.BAD_REQUEST).send();
+        }
+
+        try {
+            const { uploadId, concurrentId } = parsed.data;
+            const newOffset = await writeUploadStream(
+                uploadId,
+                concurrentId,
+                offset,
+                req,
+            );
+
+            res.setHeader('Upload-Offset', newOffset);
+            return res.status(StatusCodes.NO_CONTENT).send();
+        } catch (error: unknown) {
+            handleError(ErrorSourceType.Route, req, res, error);
+        }
+    },
+);
+
+export default router;
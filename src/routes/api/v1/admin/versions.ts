@@ -0,0 +1,105 @@
+import { Request, Response, Router } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { WithId } from 'mongodb';
+import { requireRoles } from '~/middlewares/auth';
+import { diffVersions, getVersions } from '~/services/api';
+import { IMDBVersion } from '~/services/mongodb/schemas/updates/versions';
+import { ReleaseChannel } from '~/shared';
+import { ErrorSourceType, handleError } from '~/shared/error';
+import { ZDiffVersionsRequest, ZListVersionsQuery } from '~/types/api/v1';
+import { getVersionAsString, getVersionFromString } from '~/utils';
+
+const router = Router();
+
+const ViewRoleValidator = requireRoles(['update:view']);
+
+const parseVersion = (
+    version: WithId<IMDBVersion> & { filesCount: number },
+) => {
+    return {
+        id: version._id.toHexString(),
+        version: getVersionAsString(version.version),
+        description: version.description,
+        state: version.state,
+        channel: version.channel ?? ReleaseChannel.Stable,
+        filesCount: version.filesCount,
+        activateAt: version.activateAt ?? null,
+        rollout: version.rollout ?? 100,
+        mandatory: version.mandatory ?? false,
+        minimumVersion:
+            version.minimumVersion != null
+                ? getVersionAsString(version.minimumVersion)
+                : null,
+        createdAt: version.createdAt,
+        updatedAt: version.updatedAt,
+    };
+};
+
+router.get('/', ViewRoleValidator, async (req: Request, res: Response) => {
+    const parsedQuery = ZListVersionsQuery.safeParse(req.query);
+    if (!parsedQuery.success) {
+        return res.status(StatusCodes.BAD_REQUEST).send({});
+    }
+
+    try {
+        const {
+            page,
+            size,
+            sort,
+            order,
+            cursor,
+            minVersion,
+            maxVersion,
+            ...filter
+        } = parsedQuery.data;
+        const result = await getVersions(
+            {
+                ...filter,
+                minVersion:
+                    minVersion != null
+                        ? getVersionFromString(minVersion)
+                        : null,
+                maxVersion:
+                    maxVersion != null
+                        ? getVersionFromString(maxVersion)
+                        : null,
+            },
+            {
+                offset: page * size,
+                count: size,
+                cursor,
+                sort,
+                order,
+            },
+        );
+
+        return res.status(StatusCodes.OK).json({
+            availableCount: result.count,
+            versions: result.data.map((v) => parseVersion(v)),
+            nextCursor: result.nextCursor,
+        });
+    } catch (error: unknown) {
+        handleError(ErrorSourceType.Route, req, res, error);
+    }
+});
+
+router.get(
+    '/:id/diff/:targetId',
+    ViewRoleValidator,
+    async (req: Request, res: Response) => {
+        const parsed = ZDiffVersionsRequest.safeParse(req.params);
+        if (!parsed.success) {
+            return res.status(StatusCodes.BAD_REQUEST).send({});
+        }
+
+        try {
+            const { id, targetId } = parsed.data;
+            const result = await diffVersions(id, targetId);
+            return res.status(StatusCodes.OK).json(result);
+        } catch (error: unknown) {
+            handleError(ErrorSourceType.Route, req, res, error);
+        }
+    },
+);
+
+export default router;
@@ -1,7 +1,9 @@
 import { Router } from 'express';
+import AdminRouter from './admin';
 import UpdatesRouter from './updates';
 
 const router = Router();
+router.use('/admin', AdminRouter);
 router.use('/updates', UpdatesRouter);
 
 export default router;
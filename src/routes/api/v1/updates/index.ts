@@ -1,8 +1,17 @@
 import { Request, Response, Router } from 'express';
 import { StatusCodes } from 'http-status-codes';
-import { getServersFast, getUpdateFiles } from '~/services/api';
+import {
+    getReleaseNotes,
+    getServersFast,
+    getUpdateFiles,
+} from '~/services/api';
 import { ErrorSourceType, handleError } from '~/shared/error';
-import { ZRetrieveUpdateRequest } from '~/types/api/v1';
+import {
+    ZRetrieveNotesQuery,
+    ZRetrieveNotesRequest,
+    ZRetrieveUpdateQuery,
+    ZRetrieveUpdateRequest,
+} from '~/types/api/v1';
 
 const router = Router();
 
@@ -25,6 +34,11 @@ router.get(
             return res.status(StatusCodes.BAD_REQUEST).send({});
         }
 
+        const parsedQuery = ZRetrieveUpdateQuery.safeParse(req.query);
+        if (!parsedQuery.success) {
+            return res.status(StatusCodes.BAD_REQUEST).send({});
+        }
+
         try {
             const { version, os, texture } = parsed.data;
             const [major, minor, revision] = version.split('.');
@@ -35,6 +49,7 @@ router.get(
                 +revision,
                 os,
                 texture,
+                parsedQuery.data,
             );
             return res.status(StatusCodes.OK).json(result);
         } catch (error: unknown) {
@@ -43,4 +58,31 @@ router.get(
     },
 );
 
+router.get('/notes/:version', async (req: Request, res: Response) => {
+    const parsed = ZRetrieveNotesRequest.safeParse(req.params);
+    if (!parsed.success) {
+        return res.status(StatusCodes.BAD_REQUEST).send({});
+    }
+
+    const parsedQuery = ZRetrieveNotesQuery.safeParse(req.query);
+    if (!parsedQuery.success) {
+        return res.status(StatusCodes.BAD_REQUEST).send({});
+    }
+
+    try {
+        const { version } = parsed.data;
+        const [major, minor, revision] = version.split('.');
+
+        const result = await getReleaseNotes(
+            +major,
+            +minor,
+            +revision,
+            parsedQuery.data,
+        );
+        return res.status(StatusCodes.OK).json(result);
+    } catch (error: unknown) {
+        handleError(ErrorSourceType.Route, req, res, error);
+    }
+});
+
 export default router;
@@ -4,6 +4,7 @@ import express, { RequestHandler } from 'express';
 import logger from 'morgan';
 import { permissionErrorHandler } from '~/middlewares/auth';
 import BaseRouter from './routes';
+import { setTusOptionsHeaders } from './routes/api/v1/admin/uploads';
 
 // Init express
 const app = express();
@@ -12,6 +13,7 @@ const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 app.use(cookieParser());
+app.options('/api/v1/admin/uploads*', setTusOptionsHeaders);
 app.use(cors());
 
 app.use('/', BaseRouter);
@@ -0,0 +1,105 @@
+import { status } from '@grpc/grpc-js';
+import { Filter, ObjectId } from 'mongodb';
+import { logger } from '~/logger';
+import { ResponseError } from '~/shared/error';
+import { getMongoClient } from '../mongodb/client';
+import type {
+    IAuditActor,
+    IMDBAuditEvent,
+} from '../mongodb/schemas/updates/audit';
+import type { IMDBVersion } from '../mongodb/schemas/updates/versions';
+
+const getVersionSnapshot = async (versionId: ObjectId | null) => {
+    if (versionId == null) return null;
+
+    const client = await getMongoClient();
+    if (!client) {
+        throw new Error('getMongoClient failed');
+    }
+
+    const versionsColl = client
+        .db('updates')
+        .collection<IMDBVersion>('versions');
+    return await versionsColl.findOne({
+        _id: versionId,
+    });
+};
+
+export const auditVersionChange = async <T>(
+    actor: IAuditActor,
+    action: string,
+    versionId: ObjectId | null,
+    details: Record<string, unknown>,
+    change: () => Promise<T>,
+    getVersionId?: (result: T) => ObjectId,
+): Promise<T> => {
+    const before = await getVersionSnapshot(versionId);
+    const result = await change();
+
+    /* The change is already applied, a failed audit write must not report it as failed */
+    try {
+        const auditVersionId = getVersionId?.(result) ?? versionId;
+        const after = await getVersionSnapshot(auditVersionId);
+
+        const client = await getMongoClient();
+        if (!client) {
+            throw new Error('getMongoClient failed');
+        }
+
+        const auditColl = client
+            .db('updates')
+            .collection<IMDBAuditEvent>('audit');
+        await auditColl.insertOne({
+            versionId: auditVersionId,
+            action,
+            actor,
+            details,
+            before,
+            after,
+            createdAt: new Date(),
+        });
+    } catch (error) {
+        logger.error(
+            `[ERROR] auditVersionChange failed (${action}) : ${error}`,
+        );
+    }
+
+    return result;
+};
+
+export const getAuditEvents = async (
+    versionId: ObjectId | null,
+    subject: string | null,
+    offset: number,
+    count: number,
+) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new ResponseError(
+            status.UNAVAILABLE,
+            'service unavailable.',
+            `service unavailable, failed to connect mongodb.`,
+        );
+    }
+
+    const auditColl = client.db('updates').collection<IMDBAuditEvent>('audit');
+
+    const filter: Filter<IMDBAuditEvent> = {
+        ...(versionId != null ? { versionId } : {}),
+        ...(subject != null ? { 'actor.subject': subject } : {}),
+    };
+    const [data, availableCount] = await Promise.all([
+        auditColl
+            .find(filter)
+            .sort({
+                createdAt: -1,
+                _id: -1,
+            })
+            .skip(offset)
+            .limit(count)
+            .toArray(),
+        auditColl.countDocuments(filter),
+    ]);
+
+    return { data, count: availableCount };
+};
@@ -0,0 +1,185 @@
+import { status } from '@grpc/grpc-js';
+import { ObjectId, WithId } from 'mongodb';
+import { ReleaseChannel } from '~/shared';
+import { ResponseError } from '~/shared/error';
+import type { IDiffVersionsGroup, IDiffVersionsResponse } from '~/types/api/v1';
+import { getVersionAsString } from '~/utils';
+import { getChannelVersions, getVersionsFiles } from '../mongodb/baselines';
+import { getMongoClient } from '../mongodb/client';
+import type { IMDBUpdateDeletion } from '../mongodb/schemas/updates/deletions';
+import type { IMDBUpdateFile } from '../mongodb/schemas/updates/files';
+import type { IMDBUploadManifest } from '../mongodb/schemas/updates/manifests';
+import type { IMDBVersion } from '../mongodb/schemas/updates/versions';
+
+type DiffCategory = Omit<
+    IDiffVersionsResponse['categories'][number],
+    'category'
+>;
+
+const createDiffGroup = (): IDiffVersionsGroup => ({
+    files: [],
+    packedSize: 0,
+    fileSize: 0,
+});
+
+const addDiffFile = (group: IDiffVersionsGroup, file: IMDBUpdateFile) => {
+    group.files.push(file.localPath);
+    group.packedSize += file.packedSize;
+    group.fileSize += file.fileSize;
+};
+
+const getCategoriesFiles = (files: IMDBUpdateFile[]) => {
+    const categories = new Map<number, Map<string, IMDBUpdateFile>>();
+    for (const file of files) {
+        let categoryFiles = categories.get(file.category);
+        if (categoryFiles == null) {
+            categoryFiles = new Map();
+            categories.set(file.category, categoryFiles);
+        }
+        categoryFiles.set(file.localPath, file);
+    }
+    return categories;
+};
+
+/* Delta uploads only hold the changed files, the unchanged ones come from their base version */
+const getBuildFiles = async (version: WithId<IMDBVersion>) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new Error('getMongoClient failed');
+    }
+
+    const versionsColl = client
+        .db('updates')
+        .collection<IMDBVersion>('versions');
+    const filesColl = client.db('updates').collection<IMDBUpdateFile>('files');
+    const deletionsColl = client
+        .db('updates')
+        .collection<IMDBUpdateDeletion>('deletions');
+    const manifestsColl = client
+        .db('updates')
+        .collection<IMDBUploadManifest>('manifests');
+
+    const files = await filesColl
+        .find({
+            versionId: version._id,
+        })
+        .toArray();
+
+    const manifest = await manifestsColl.findOne({
+        versionId: version._id,
+    });
+    const baseVersion =
+        manifest?.baseVersionId != null
+            ? await versionsColl.findOne({
+                  _id: manifest.baseVersionId,
+              })
+            : null;
+    if (baseVersion == null) return files;
+
+    const deletedPaths = await deletionsColl.distinct('localPath', {
+        versionId: version._id,
+    });
+    const keys = new Set(
+        files.map((file) => `${file.category}:${file.localPath}`),
+    );
+    const baseFiles = await getVersionsFiles(
+        await getChannelVersions(
+            version.channel ?? ReleaseChannel.Stable,
+            baseVersion.version,
+        ),
+    );
+
+    return [
+        ...files,
+        ...baseFiles.filter(
+            (file) =>
+                !keys.has(`${file.category}:${file.localPath}`) &&
+                !deletedPaths.includes(file.localPath),
+        ),
+    ];
+};
+
+export const diffVersions = async (
+    versionId: ObjectId,
+    targetVersionId: ObjectId,
+): Promise<IDiffVersionsResponse> => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new ResponseError(
+            status.UNAVAILABLE,
+            'service unavailable.',
+            `service unavailable, failed to connect mongodb.`,
+        );
+    }
+
+    const versionsColl = client
+        .db('updates')
+        .collection<IMDBVersion>('versions');
+
+    const [version, targetVersion] = await Promise.all(
+        [versionId, targetVersionId].map((id) =>
+            versionsColl.findOne({
+                _id: id,
+            }),
+        ),
+    );
+    if (version == null || targetVersion == null) {
+        throw new ResponseError(
+            status.NOT_FOUND,
+            'invalid version.',
+            `invalid version, not found in database.`,
+        );
+    }
+
+    const [files, targetFiles] = await Promise.all(
+        [version, targetVersion].map((current) => getBuildFiles(current)),
+    );
+
+    const categoriesFiles = getCategoriesFiles(files);
+    const targetCategoriesFiles = getCategoriesFiles(targetFiles);
+    const categories = [
+        ...new Set([
+            ...categoriesFiles.keys(),
+            ...targetCategoriesFiles.keys(),
+        ]),
+    ].sort((a, b) => a - b);
+
+    return {
+        version: getVersionAsString(version.version),
+        targetVersion: getVersionAsString(targetVersion.version),
+        categories: categories.map((category) => {
+            const diff: DiffCategory = {
+                added: createDiffGroup(),
+                removed: createDiffGroup(),
+                modified: createDiffGroup(),
+                unchanged: createDiffGroup(),
+            };
+
+            /* Sizes are the target version ones, except for removed files */
+            const sourceFiles = categoriesFiles.get(category) ?? new Map();
+            const destFiles = targetCategoriesFiles.get(category) ?? new Map();
+            for (const [localPath, file] of destFiles) {
+                const sourceFile = sourceFiles.get(localPath);
+                if (sourceFile == null) {
+                    addDiffFile(diff.added, file);
+                } else if (
+                    sourceFile.crc32 !== file.crc32 ||
+                    sourceFile.fileSize !== file.fileSize
+                ) {
+                    addDiffFile(diff.modified, file);
+                } else {
+                    addDiffFile(diff.unchanged, file);
+                }
+            }
+            for (const [localPath, file] of sourceFiles) {
+                if (destFiles.has(localPath)) continue;
+                addDiffFile(diff.removed, file);
+            }
+
+            return {
+                category,
+                ...diff,
+            };
+        }),
+    };
+};
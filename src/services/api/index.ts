@@ -1,2 +1,7 @@
+export * from './audit';
+export * from './diff';
+export * from './notes';
 export * from './servers';
 export * from './update';
+export * from './uploads';
+export * from './watch';
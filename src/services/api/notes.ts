@@ -0,0 +1,184 @@
+import { status } from '@grpc/grpc-js';
+import { ObjectId } from 'mongodb';
+import { logger } from '~/logger';
+import { DefaultReleaseNotesLocale } from '~/shared';
+import { ResponseError } from '~/shared/error';
+import type {
+    IRetrieveNotesQuery,
+    IRetrieveNotesResponse,
+} from '~/types/api/v1';
+import { getVersionAsString } from '~/utils';
+import { getMongoClient } from '../mongodb/client';
+import type { IMDBReleaseNote } from '../mongodb/schemas/updates/notes';
+import type { IMDBVersion } from '../mongodb/schemas/updates/versions';
+import { getUpdateVersions } from './update';
+
+/* Locales tried in order when looking for a note, e.g. pt-BR -> pt -> en */
+const getLocaleFallbacks = (locale: string) => {
+    const [language] = locale.split('-');
+    return [...new Set([locale, language, DefaultReleaseNotesLocale])];
+};
+
+export const setReleaseNotes = async (
+    versionId: ObjectId,
+    locale: string,
+    content: string,
+) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new ResponseError(
+            status.UNAVAILABLE,
+            'service unavailable.',
+            `service unavailable, failed to connect mongodb.`,
+        );
+    }
+
+    const versionsColl = client
+        .db('updates')
+        .collection<IMDBVersion>('versions');
+    const notesColl = client.db('updates').collection<IMDBReleaseNote>('notes');
+
+    const version = await versionsColl.findOne(
+        {
+            _id: versionId,
+        },
+        {
+            projection: {
+                _id: 1,
+            },
+        },
+    );
+    if (version == null) {
+        throw new ResponseError(
+            status.NOT_FOUND,
+            'invalid version.',
+            `invalid version, not found in database.`,
+        );
+    }
+
+    if (content.length === 0) {
+        await notesColl.deleteOne({
+            versionId,
+            locale,
+        });
+        return;
+    }
+
+    const currentDate = new Date();
+    await notesColl.updateOne(
+        {
+            versionId,
+            locale,
+        },
+        {
+            $set: {
+                content,
+                updatedAt: currentDate,
+            },
+            $setOnInsert: {
+                versionId,
+                locale,
+                createdAt: currentDate,
+            },
+        },
+        {
+            upsert: true,
+        },
+    );
+};
+
+export const getVersionReleaseNotes = async (versionId: ObjectId) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new ResponseError(
+            status.UNAVAILABLE,
+            'service unavailable.',
+            `service unavailable, failed to connect mongodb.`,
+        );
+    }
+
+    const notesColl = client.db('updates').collection<IMDBReleaseNote>('notes');
+
+    return await notesColl
+        .find({
+            versionId,
+        })
+        .sort({
+            locale: 1,
+        })
+        .toArray();
+};
+
+export const getReleaseNotes = async (
+    major: number,
+    minor: number,
+    revision: number,
+    query: IRetrieveNotesQuery,
+): Promise<IRetrieveNotesResponse> => {
+    try {
+        const client = await getMongoClient();
+        if (!client) {
+            throw new Error('getMongoClient failed');
+        }
+
+        const versions = await getUpdateVersions(
+            {
+                major,
+                minor,
+                revision,
+            },
+            query,
+        );
+        if (versions.length === 0) {
+            return {
+                notes: [],
+            };
+        }
+
+        const locales = getLocaleFallbacks(query.locale);
+        const notesColl = client
+            .db('updates')
+            .collection<IMDBReleaseNote>('notes');
+        const notes = await notesColl
+            .find({
+                versionId: { $in: versions.map((version) => version._id) },
+                locale: { $in: locales },
+            })
+            .toArray();
+
+        /* Keep the note with the most specific locale available for each version */
+        const versionsNotes = new Map<string, IMDBReleaseNote>();
+        for (const note of notes) {
+            const versionId = note.versionId.toHexString();
+            const current = versionsNotes.get(versionId);
+            if (
+                current == null ||
+                locales.indexOf(note.locale) < locales.indexOf(current.locale)
+            ) {
+                versionsNotes.set(versionId, note);
+            }
+        }
+
+        /* Newest version first, the way a changelog is read */
+        return {
+            notes: versions
+                .slice()
+                .reverse()
+                .flatMap((version) => {
+                    const note = versionsNotes.get(version._id.toHexString());
+                    if (note == null) return [];
+
+                    return [
+                        {
+                            version: getVersionAsString(version.version),
+                            locale: note.locale,
+                            content: note.content,
+                        },
+                    ];
+                }),
+        };
+    } catch (error) {
+        logger.error(`[ERROR] getReleaseNotes failed : ${error}`);
+        throw error;
+    }
+};
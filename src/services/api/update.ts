@@ -1,42 +1,103 @@
-import { StatusCodes } from 'http-status-codes';
-import { ObjectId, WithId } from 'mongodb';
-import path from 'node:path';
+import { status } from '@grpc/grpc-js';
+import _ from 'lodash';
+import { AnyBulkWriteOperation, BSON, Filter, ObjectId, WithId } from 'mongodb';
 import { logger } from '~/logger';
 import { StartUploadVersionResponse__Output } from '~/proto/nextmu/v1/StartUploadVersionResponse';
+import { SubmitUploadManifestResponse__Output } from '~/proto/nextmu/v1/SubmitUploadManifestResponse';
 import { UploadState } from '~/proto/nextmu/v1/UploadState';
 import { UploadVersionChunkResponse__Output } from '~/proto/nextmu/v1/UploadVersionChunkResponse';
 import { VersionState } from '~/proto/nextmu/v1/VersionState';
 import { VersionType } from '~/proto/nextmu/v1/VersionType';
 import { getRedisClient } from '~/services/redis';
+import { clearUpdateCache, formatUpdateKey } from '~/services/redis/update';
 import {
+    InitialVersion,
     OperatingSystemLookup,
     PlatformLookup,
+    ReleaseChannel,
     TextureLookup,
     UpdatesCategories,
+    UploadArchiveType,
     updateCacheDuration,
 } from '~/shared';
 import { ResponseError } from '~/shared/error';
-import type {
+import {
+    assertUploadState,
+    assertVersionState,
+    assertVersionTransition,
+} from '~/shared/states';
+import {
+    IRetrieveUpdateQuery,
     IRetrieveUpdateResponse,
     OperatingSystems,
+    SortOrder,
     TextureFormat,
+    VersionsSortField,
 } from '~/types/api/v1';
-import { getInputFolder, getMissingRanges } from '~/utils';
-import { UpdateServiceJobType, UpdatesQueue } from '../bullmq';
+import {
+    compareVersions,
+    getInputChunkFile,
+    getInputFolder,
+    getMissingRanges,
+    getVersionAsString,
+    getVersionFromString,
+} from '~/utils';
+import { calculateBufferChecksum, getRolloutBucket } from '~/utils/hash';
+import {
+    applyDeletions,
+    getLatestDeletions,
+    mergeRevokedChanges,
+    selectClientVersions,
+} from '~/utils/updates';
+import {
+    UpdateServiceJobType,
+    UpdatesQueue,
+    queueBuildBaselines,
+} from '../bullmq';
+import {
+    getBaselineChanges,
+    getVersionsBaseline,
+    invalidateBaselines,
+} from '../mongodb/baselines';
 import { getMongoClient } from '../mongodb/client';
-import { IMDBUploadChunk } from '../mongodb/schemas/updates/chunks';
+import { isDuplicateKeyError } from '../mongodb/errors';
+import {
+    getChannelFilter,
+    getNewerOrEqualVersionFilter,
+    getNewerVersionFilter,
+    getOlderOrEqualVersionFilter,
+    getPublishedFilter,
+    getVersionLineFilter,
+} from '../mongodb/filters';
+import { IManifestFile, getManifestChanges } from '../mongodb/manifests';
+import {
+    IMDBUploadChunk,
+    IUploadChunkChecksum,
+} from '../mongodb/schemas/updates/chunks';
+import type { IMDBUpdateDeletion } from '../mongodb/schemas/updates/deletions';
 import type { IMDBUpdateFile } from '../mongodb/schemas/updates/files';
+import type { IMDBUploadManifest } from '../mongodb/schemas/updates/manifests';
 import { IMDBUpload } from '../mongodb/schemas/updates/uploads';
-import type { IMDBVersion } from '../mongodb/schemas/updates/versions';
+import type {
+    IMDBVersion,
+    IVersion,
+} from '../mongodb/schemas/updates/versions';
 import { setUploadState } from '../mongodb/update';
 import { deleteFolder, uploadBuffer } from '../storage';
 import { StorageType } from '../storage/enums';
 
-export const createVersion = async (type: VersionType, description: string) => {
+const MaxCreateVersionAttempts = 5;
+
+export const createVersion = async (
+    type: VersionType,
+    description: string,
+    channel: ReleaseChannel,
+    version: IVersion | null,
+) => {
     const client = await getMongoClient();
     if (!client) {
         throw new ResponseError(
-            StatusCodes.SERVICE_UNAVAILABLE,
+            status.UNAVAILABLE,
             'service unavailable.',
             `service unavailable, failed to connect mongodb.`,
         );
@@ -47,113 +108,80 @@ export const createVersion = async (type: VersionType, description: string) => {
             .db('updates')
             .collection<IMDBVersion>('versions');
 
-        const versionId = new ObjectId();
-        const currentDate = new Date();
+        const insertVersion = async (version: IVersion) => {
+            const currentDate = new Date();
+            const result = await versionsColl.insertOne({
+                version,
+                description,
+                state: VersionState.PENDING,
+                channel,
+                createdAt: currentDate,
+                updatedAt: currentDate,
+            });
+
+            return {
+                id: result.insertedId,
+                version,
+            };
+        };
+
+        if (version != null) {
+            return await insertVersion(version);
+        }
+
+        /* A version created concurrently with the same number is rejected by the unique index */
         const versionField =
             type === VersionType.MAJOR
-                ? 'version.major'
+                ? 'major'
                 : type === VersionType.MINOR
-                  ? 'version.minor'
-                  : 'version.revision';
-        await versionsColl
-            .aggregate<WithId<IMDBVersion>>([
+                  ? 'minor'
+                  : 'revision';
+        for (let attempt = 0; attempt < MaxCreateVersionAttempts; ++attempt) {
+            const latest = await versionsColl.findOne(
+                {},
                 {
-                    $sort: {
+                    sort: {
                         'version.major': -1,
                         'version.minor': -1,
                         'version.revision': -1,
                     },
-                },
-                {
-                    $limit: 1,
-                },
-                {
-                    $facet: {
-                        current: [
-                            {
-                                $match: {
-                                    _id: {
-                                        $ne: null,
-                                    },
-                                },
-                            },
-                        ],
-                    },
-                },
-                {
-                    $project: {
-                        versions: {
-                            $cond: {
-                                if: {
-                                    $eq: [
-                                        {
-                                            $size: '$current',
-                                        },
-                                        0,
-                                    ],
-                                },
-                                then: [
-                                    {
-                                        version: {
-                                            major: 0,
-                                            minor: 0,
-                                            revision: 0,
-                                        },
-                                    },
-                                ],
-                                else: '$current',
-                            },
-                        },
-                    },
-                },
-                {
-                    $unwind: '$versions',
-                },
-                {
-                    $replaceRoot: {
-                        newRoot: '$versions',
-                    },
-                },
-                {
-                    $set: {
-                        _id: versionId,
-                        [versionField]: {
-                            $sum: [`$${versionField}`, 1],
-                        },
-                        description,
-                        state: VersionState.PENDING,
-                        createdAt: currentDate,
-                        updatedAt: currentDate,
-                    },
-                },
-                {
-                    $merge: {
-                        into: 'versions',
-                        on: '_id',
-                        whenMatched: 'keepExisting',
-                        whenNotMatched: 'insert',
+                    projection: {
+                        version: 1,
                     },
                 },
-            ])
-            .tryNext();
-
-        const result = await versionsColl.findOne({ _id: versionId });
-        if (result == null) {
-            throw new ResponseError(
-                StatusCodes.INTERNAL_SERVER_ERROR,
-                'service failed.',
-                `service failed, couldn't retrieve created version.`,
             );
+
+            const currentVersion = latest?.version ?? {
+                major: 0,
+                minor: 0,
+                revision: 0,
+            };
+
+            try {
+                return await insertVersion({
+                    ...currentVersion,
+                    [versionField]: currentVersion[versionField] + 1,
+                });
+            } catch (error) {
+                if (!isDuplicateKeyError(error)) throw error;
+            }
         }
 
-        return {
-            id: result._id,
-            version: result.version,
-        };
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        throw new ResponseError(
+            status.ABORTED,
+            'version creation conflicted, try again.',
+            `version creation conflicted ${MaxCreateVersionAttempts} times.`,
+        );
     } catch (error) {
+        if (error instanceof ResponseError) throw error;
+        if (isDuplicateKeyError(error)) {
+            throw new ResponseError(
+                status.ALREADY_EXISTS,
+                'version already exists.',
+            );
+        }
         throw new ResponseError(
-            StatusCodes.SERVICE_UNAVAILABLE,
+            status.UNAVAILABLE,
             'service unavailable.',
             `service unavailable, failed to connect mongodb.`,
         );
@@ -164,7 +192,7 @@ export const editVersion = async (versionId: ObjectId, description: string) => {
     const client = await getMongoClient();
     if (!client) {
         throw new ResponseError(
-            StatusCodes.SERVICE_UNAVAILABLE,
+            status.UNAVAILABLE,
             'service unavailable.',
             `service unavailable, failed to connect mongodb.`,
         );
@@ -188,57 +216,24 @@ export const editVersion = async (versionId: ObjectId, description: string) => {
     return { success: result.modifiedCount > 0 };
 };
 
-export const getVersions = async (offset: number, count: number) => {
+const fillVersionsFilesCount = async (
+    versions: (WithId<IMDBVersion> & { filesCount: number })[],
+) => {
+    if (versions.length === 0) return;
+
     const client = await getMongoClient();
     if (!client) {
         throw new ResponseError(
-            StatusCodes.SERVICE_UNAVAILABLE,
+            status.UNAVAILABLE,
             'service unavailable.',
             `service unavailable, failed to connect mongodb.`,
         );
     }
 
-    const versionsColl = client
-        .db('updates')
-        .collection<IMDBVersion>('versions');
-    const filesColl = client.db('updates').collection<IMDBVersion>('files');
-
-    const versionsResult = await versionsColl
-        .aggregate<{
-            count: number;
-            data: (WithId<IMDBVersion> & { filesCount: number })[];
-        }>([
-            {
-                $facet: {
-                    count: [{ $count: 'value' }],
-                    data: [
-                        {
-                            $sort: { createdAt: -1 },
-                        },
-                        {
-                            $skip: offset,
-                        },
-                        {
-                            $limit: count,
-                        },
-                    ],
-                },
-            },
-            {
-                $unwind: '$count',
-            },
-            {
-                $set: { count: '$count.value' },
-            },
-        ])
-        .toArray();
-
-    const deferredData = versionsResult.length > 0 ? versionsResult[0] : null;
-
-    if (deferredData == null) return { data: [], count: 0 };
+    const filesColl = client.db('updates').collection<IMDBUpdateFile>('files');
 
     const versionsMap = new Map(
-        deferredData.data.map((version, index) => {
+        versions.map((version, index) => {
             version.filesCount ??= 0;
             return [version._id!.toHexString(), index];
         }),
@@ -251,7 +246,7 @@ export const getVersions = async (offset: number, count: number) => {
             {
                 $match: {
                     versionId: {
-                        $in: deferredData.data.map((v) => v._id!),
+                        $in: versions.map((v) => v._id!),
                     },
                 },
             },
@@ -267,18 +262,203 @@ export const getVersions = async (offset: number, count: number) => {
         .toArray();
 
     filesCount.forEach((f) => {
-        deferredData.data[versionsMap.get(f._id.toHexString())!].filesCount =
+        versions[versionsMap.get(f._id.toHexString())!].filesCount =
             f.filesCount;
     });
+};
+
+export interface IVersionsFilter {
+    states?: VersionState[];
+    minVersion?: IVersion | null;
+    maxVersion?: IVersion | null;
+    createdAfter?: Date | null;
+    createdBefore?: Date | null;
+    search?: string | null;
+}
+
+export interface IVersionsPagination {
+    offset: number;
+    count: number;
+    cursor?: string | null;
+    sort: VersionsSortField;
+    order: SortOrder;
+}
+
+const VersionsSortKeys: Record<VersionsSortField, string[]> = {
+    [VersionsSortField.CreatedAt]: ['createdAt', '_id'],
+    [VersionsSortField.Version]: [
+        'version.major',
+        'version.minor',
+        'version.revision',
+    ],
+};
+
+interface IVersionsCursor {
+    sort: VersionsSortField;
+    order: SortOrder;
+    values: unknown[];
+}
+
+const encodeVersionsCursor = (cursor: IVersionsCursor) =>
+    Buffer.from(BSON.EJSON.stringify(cursor)).toString('base64url');
+
+const decodeVersionsCursor = (
+    cursor: string,
+    sort: VersionsSortField,
+    order: SortOrder,
+) => {
+    try {
+        const decoded = BSON.EJSON.parse(
+            Buffer.from(cursor, 'base64url').toString(),
+        ) as IVersionsCursor;
+        if (
+            decoded.sort === sort &&
+            decoded.order === order &&
+            Array.isArray(decoded.values) &&
+            decoded.values.length === VersionsSortKeys[sort].length
+        ) {
+            return decoded;
+        }
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    } catch (error) {
+        /* empty */
+    }
+
+    throw new ResponseError(
+        status.INVALID_ARGUMENT,
+        'invalid cursor, it is malformed or was created for another sort.',
+    );
+};
+
+const getCursorFilter = (
+    keys: string[],
+    values: unknown[],
+    order: SortOrder,
+): Filter<IMDBVersion> => {
+    const operator = order === SortOrder.Ascending ? '$gt' : '$lt';
+    return {
+        $or: keys.map((key, index) => ({
+            ...Object.fromEntries(
+                keys
+                    .slice(0, index)
+                    .map((previousKey, previousIndex) => [
+                        previousKey,
+                        { $eq: values[previousIndex] },
+                    ]),
+            ),
+            [key]: { [operator]: values[index] },
+        })),
+    };
+};
+
+const getVersionsFilter = (filter: IVersionsFilter): Filter<IMDBVersion> => {
+    const filters: Filter<IMDBVersion>[] = [];
+    if (filter.states != null && filter.states.length > 0) {
+        filters.push({
+            state: { $in: filter.states },
+        });
+    }
+    if (filter.minVersion != null) {
+        filters.push(getNewerOrEqualVersionFilter(filter.minVersion));
+    }
+    if (filter.maxVersion != null) {
+        filters.push(getOlderOrEqualVersionFilter(filter.maxVersion));
+    }
+    if (filter.createdAfter != null) {
+        filters.push({
+            createdAt: { $gte: filter.createdAfter },
+        });
+    }
+    if (filter.createdBefore != null) {
+        filters.push({
+            createdAt: { $lte: filter.createdBefore },
+        });
+    }
+    if (filter.search != null && filter.search.length > 0) {
+        filters.push({
+            description: {
+                $regex: _.escapeRegExp(filter.search),
+                $options: 'i',
+            },
+        });
+    }
+
+    return filters.length > 0 ? { $and: filters } : {};
+};
+
+export const getVersions = async (
+    filter: IVersionsFilter,
+    pagination: IVersionsPagination,
+) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new ResponseError(
+            status.UNAVAILABLE,
+            'service unavailable.',
+            `service unavailable, failed to connect mongodb.`,
+        );
+    }
+
+    const versionsColl = client
+        .db('updates')
+        .collection<IMDBVersion & { filesCount: number }>('versions');
+
+    const { offset, count, cursor, sort, order } = pagination;
+    const sortKeys = VersionsSortKeys[sort];
+    const versionsFilter = getVersionsFilter(filter);
+    const cursorFilter =
+        cursor != null
+            ? getCursorFilter(
+                  sortKeys,
+                  decodeVersionsCursor(cursor, sort, order).values,
+                  order,
+              )
+            : null;
+
+    const availableCount = await versionsColl.countDocuments(versionsFilter);
+    const data = await versionsColl
+        .find(
+            cursorFilter != null
+                ? { $and: [versionsFilter, cursorFilter] }
+                : versionsFilter,
+        )
+        .sort(
+            Object.fromEntries(
+                sortKeys.map((key) => [
+                    key,
+                    order === SortOrder.Ascending ? 1 : -1,
+                ]),
+            ),
+        )
+        .skip(cursorFilter != null ? 0 : offset)
+        .limit(count + 1)
+        .toArray();
+
+    const hasMore = data.length > count;
+    if (hasMore) data.splice(count);
 
-    return deferredData;
+    await fillVersionsFilesCount(data);
+
+    const lastVersion = data.length > 0 ? data[data.length - 1] : null;
+    return {
+        data,
+        count: availableCount,
+        nextCursor:
+            hasMore && lastVersion != null
+                ? encodeVersionsCursor({
+                      sort,
+                      order,
+                      values: sortKeys.map((key) => _.get(lastVersion, key)),
+                  })
+                : null,
+    };
 };
 
 export const getVersion = async (versionId: ObjectId) => {
     const client = await getMongoClient();
     if (!client) {
         throw new ResponseError(
-            StatusCodes.SERVICE_UNAVAILABLE,
+            status.UNAVAILABLE,
             'service unavailable.',
             `service unavailable, failed to connect mongodb.`,
         );
@@ -294,7 +474,7 @@ export const getVersion = async (versionId: ObjectId) => {
     });
     if (version == null) {
         throw new ResponseError(
-            StatusCodes.NOT_FOUND,
+            status.NOT_FOUND,
             'invalid version.',
             `invalid version, not found in database.`,
         );
@@ -335,7 +515,7 @@ export const getUpload = async (versionId: ObjectId) => {
     const client = await getMongoClient();
     if (!client) {
         throw new ResponseError(
-            StatusCodes.SERVICE_UNAVAILABLE,
+            status.UNAVAILABLE,
             'service unavailable.',
             `service unavailable, failed to connect mongodb.`,
         );
@@ -379,7 +559,7 @@ export const getUploads = async (versionIds: ObjectId[]) => {
     const client = await getMongoClient();
     if (!client) {
         throw new ResponseError(
-            StatusCodes.SERVICE_UNAVAILABLE,
+            status.UNAVAILABLE,
             'service unavailable.',
             `service unavailable, failed to connect mongodb.`,
         );
@@ -432,12 +612,15 @@ export const getUploads = async (versionIds: ObjectId[]) => {
     }));
 };
 
+const getUploadJobId = (id: string, uploadId: string, concurrentId: string) =>
+    `version-${id}-${uploadId}-${concurrentId}`;
+
 export const processUpdateFile = async (
     id: string,
     uploadId: string,
     concurrentId: string,
 ) => {
-    const jobId = `version-${id}-${uploadId}-${concurrentId}`;
+    const jobId = getUploadJobId(id, uploadId, concurrentId);
     let job = await UpdatesQueue.getJob(jobId);
     if (job) {
         if (await job.isFailed()) {
@@ -492,143 +675,786 @@ export const processVersion = async (id: string) => {
     }
 };
 
-const formatUpdateKey = (
-    source: string,
-    target: string,
-    os: OperatingSystems,
-    texture: TextureFormat,
-) => {
-    return `update-${source}-${target}-${os}-${texture}`;
+export const scheduleActivateVersion = async (id: string, activateAt: Date) => {
+    const jobId = `version-activate-${id}`;
+    const job = await UpdatesQueue.getJob(jobId);
+    if (job) {
+        await job.remove();
+    }
+
+    await UpdatesQueue.add(
+        `[${id}] Activate Version`,
+        {
+            type: UpdateServiceJobType.ProcessActivateVersion,
+            data: {
+                versionId: id,
+            },
+        },
+        {
+            jobId,
+            delay: Math.max(activateAt.getTime() - Date.now(), 0),
+            removeOnComplete: true,
+        },
+    );
 };
 
-export const getUpdateFiles = async (
-    major: number,
-    minor: number,
-    revision: number,
-    os: OperatingSystems,
-    texture: TextureFormat,
-): Promise<IRetrieveUpdateResponse> => {
-    try {
-        const client = await getMongoClient();
-        if (!client) {
-            throw new Error('getMongoClient failed');
-        }
+export const cancelActivateVersion = async (id: string) => {
+    const job = await UpdatesQueue.getJob(`version-activate-${id}`);
+    if (job) {
+        await job.remove();
+    }
+};
 
-        const versionsColl = client
-            .db('updates')
-            .collection<IMDBVersion>('versions');
-        const versions = await versionsColl
-            .find({
-                $and: [
-                    {
-                        state: { $eq: VersionState.READY },
-                    },
-                    {
-                        $or: [
-                            {
-                                'version.major': { $gt: major },
-                            },
-                            {
-                                'version.major': { $eq: major },
-                                'version.minor': { $gt: minor },
-                            },
-                            {
-                                'version.major': { $eq: major },
-                                'version.minor': { $eq: minor },
-                                'version.revision': { $gt: revision },
-                            },
-                        ],
-                    },
-                ],
-            })
-            .sort({
-                createdAt: 1,
-            })
-            .toArray();
+export const publishVersion = async (
+    versionId: ObjectId,
+    publishAt: Date | null,
+) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new ResponseError(
+            status.UNAVAILABLE,
+            'service unavailable.',
+            `service unavailable, failed to connect mongodb.`,
+        );
+    }
 
-        if (versions.length === 0) {
-            return {
-                version: `${major}.${minor}.${revision}`,
-                files: [],
-            };
-        }
+    const versionsColl = client
+        .db('updates')
+        .collection<IMDBVersion>('versions');
 
-        const sourceVersion = versions[0];
-        const lastVersion = versions[versions.length - 1];
-        const updateKey = formatUpdateKey(
-            `${[sourceVersion.version.major, sourceVersion.version.minor, sourceVersion.version.revision].join('.')}`,
-            `${[lastVersion.version.major, lastVersion.version.minor, lastVersion.version.revision].join('.')}`,
-            os,
-            texture,
+    const version = await versionsColl.findOne({
+        _id: versionId,
+    });
+    if (version == null) {
+        throw new ResponseError(
+            status.NOT_FOUND,
+            'invalid version.',
+            `invalid version, not found in database.`,
         );
-        const redis = await getRedisClient();
-        const updateData = await redis.get(updateKey);
-        if (updateData != null) return JSON.parse(updateData);
+    }
 
-        interface IUpdateFile {
-            version: WithId<IMDBVersion>;
-            file: IMDBUpdateFile;
-        }
+    const id = versionId.toHexString();
+    const currentDate = new Date();
+    const scheduled = publishAt != null && publishAt > currentDate;
 
-        const versionsMap = new Map(
-            versions.map((version) => {
-                return [version._id!.toHexString(), version];
-            }),
-        );
-        const filesColl = client
-            .db('updates')
-            .collection<IMDBUpdateFile>('files');
-        const filesMap = new Map<string, IUpdateFile>();
-        const filesCursor = filesColl.find({
-            $and: [
+    if (version.state === VersionState.SCHEDULED) {
+        if (scheduled) {
+            await versionsColl.updateOne(
                 {
-                    versionId: {
-                        $in: versions.map((version) => version._id!),
+                    _id: versionId,
+                    state: VersionState.SCHEDULED,
+                },
+                {
+                    $set: {
+                        activateAt: publishAt,
+                        updatedAt: currentDate,
                     },
                 },
+            );
+            await scheduleActivateVersion(id, publishAt);
+        } else {
+            await versionsColl.updateOne(
                 {
-                    $or: [
-                        {
-                            category: {
-                                $eq: UpdatesCategories.General,
-                            },
-                        },
-                        {
-                            category: {
-                                $eq: PlatformLookup[os],
-                            },
-                        },
-                        {
-                            category: {
-                                $eq: OperatingSystemLookup[os],
-                            },
-                        },
-                        {
-                            category: {
-                                $eq: TextureLookup[texture],
-                            },
-                        },
-                    ],
+                    _id: versionId,
+                    state: VersionState.SCHEDULED,
                 },
-            ],
-        });
-
-        for await (const file of filesCursor) {
-            const version = versionsMap.get(file.versionId.toHexString())!;
-            const fileData = filesMap.get(file.localPath);
-            if (fileData == null) {
-                filesMap.set(file.localPath, {
-                    version,
-                    file,
-                });
-            } else if (fileData.version.createdAt < version.createdAt) {
-                fileData.version = version;
-                fileData.file = file;
-            }
-        }
+                {
+                    $set: {
+                        state: VersionState.READY,
+                        activateAt: currentDate,
+                        updatedAt: currentDate,
+                    },
+                },
+            );
+            await cancelActivateVersion(id);
+            await clearUpdateCache();
+            await queueBuildBaselines();
+        }
+        return;
+    }
+
+    assertVersionState(
+        version.state,
+        [VersionState.PENDING, VersionState.PROCESSING],
+        'be published',
+    );
+
+    const uploadsColl = client.db('updates').collection<IMDBUpload>('uploads');
+    const upload = await uploadsColl.findOne({
+        versionId,
+        state: UploadState.READY,
+    });
+    if (upload == null) {
+        throw new ResponseError(
+            status.FAILED_PRECONDITION,
+            'invalid version, it has no ready upload.',
+        );
+    }
+
+    const result = await versionsColl.updateOne(
+        {
+            _id: versionId,
+            state: {
+                $in: [VersionState.PENDING, VersionState.PROCESSING],
+            },
+        },
+        scheduled
+            ? {
+                  $set: {
+                      activateAt: publishAt,
+                      updatedAt: currentDate,
+                  },
+              }
+            : {
+                  $set: {
+                      updatedAt: currentDate,
+                  },
+                  $unset: {
+                      activateAt: '',
+                  },
+              },
+    );
+    if (result.matchedCount === 0) {
+        throw new ResponseError(
+            status.ABORTED,
+            'version state changed, try again.',
+        );
+    }
+
+    if (scheduled) {
+        await scheduleActivateVersion(id, publishAt);
+    } else {
+        await cancelActivateVersion(id);
+    }
+
+    await processVersion(id);
+};
+
+export const getScheduledVersions = async () => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new ResponseError(
+            status.UNAVAILABLE,
+            'service unavailable.',
+            `service unavailable, failed to connect mongodb.`,
+        );
+    }
+
+    const versionsColl = client
+        .db('updates')
+        .collection<IMDBVersion & { filesCount: number }>('versions');
+
+    const versions = await versionsColl
+        .find({
+            state: {
+                $in: [
+                    VersionState.PENDING,
+                    VersionState.PROCESSING,
+                    VersionState.SCHEDULED,
+                ],
+            },
+            activateAt: { $type: 'date' },
+        })
+        .sort({
+            activateAt: 1,
+        })
+        .toArray();
+
+    await fillVersionsFilesCount(versions);
+
+    return versions;
+};
+
+export const cancelScheduledVersion = async (versionId: ObjectId) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new ResponseError(
+            status.UNAVAILABLE,
+            'service unavailable.',
+            `service unavailable, failed to connect mongodb.`,
+        );
+    }
+
+    const versionsColl = client
+        .db('updates')
+        .collection<IMDBVersion>('versions');
+
+    const result = await versionsColl.updateOne(
+        {
+            _id: versionId,
+            state: {
+                $in: [
+                    VersionState.PENDING,
+                    VersionState.PROCESSING,
+                    VersionState.SCHEDULED,
+                ],
+            },
+            activateAt: { $type: 'date' },
+        },
+        {
+            $set: {
+                updatedAt: new Date(),
+            },
+            $unset: {
+                activateAt: '',
+            },
+        },
+    );
+    if (result.matchedCount === 0) {
+        throw new ResponseError(
+            status.FAILED_PRECONDITION,
+            'invalid version, it has no pending schedule.',
+        );
+    }
+
+    await cancelActivateVersion(versionId.toHexString());
+};
+
+export const processDeleteVersion = async (id: string) => {
+    const jobId = `version-delete-${id}`;
+    let job = await UpdatesQueue.getJob(jobId);
+    if (job) {
+        if (await job.isFailed()) {
+            await job.remove();
+            job = undefined;
+        }
+    }
+
+    if (!job) {
+        job = await UpdatesQueue.add(
+            `[${id}] Delete Version`,
+            {
+                type: UpdateServiceJobType.ProcessDeleteVersion,
+                data: {
+                    versionId: id,
+                },
+            },
+            {
+                jobId,
+                removeOnComplete: true,
+            },
+        );
+    }
+};
+
+export const deleteVersion = async (versionId: ObjectId, force: boolean) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new ResponseError(
+            status.UNAVAILABLE,
+            'service unavailable.',
+            `service unavailable, failed to connect mongodb.`,
+        );
+    }
+
+    const versionsColl = client
+        .db('updates')
+        .collection<IMDBVersion>('versions');
+    const uploadsColl = client.db('updates').collection<IMDBUpload>('uploads');
+
+    const version = await versionsColl.findOne({
+        _id: versionId,
+    });
+    if (version == null) {
+        throw new ResponseError(
+            status.NOT_FOUND,
+            'invalid version.',
+            `invalid version, not found in database.`,
+        );
+    }
+
+    if (version.state !== VersionState.DELETING) {
+        assertVersionTransition(version.state, VersionState.DELETING);
+    }
+
+    if (version.state === VersionState.READY && force == false) {
+        throw new ResponseError(
+            status.FAILED_PRECONDITION,
+            'invalid version, ready versions can only be deleted when forced.',
+        );
+    }
+
+    const processingUpload = await uploadsColl.findOne({
+        versionId,
+        state: UploadState.PROCESSING,
+    });
+    if (processingUpload != null) {
+        throw new ResponseError(
+            status.FAILED_PRECONDITION,
+            'invalid version, its upload is being processed.',
+        );
+    }
+
+    if (version.state !== VersionState.DELETING) {
+        const result = await versionsColl.updateOne(
+            {
+                _id: versionId,
+                state: version.state,
+            },
+            {
+                $set: {
+                    state: VersionState.DELETING,
+                    updatedAt: new Date(),
+                },
+            },
+        );
+        if (result.modifiedCount === 0) {
+            throw new ResponseError(
+                status.ABORTED,
+                'version state changed, try again.',
+            );
+        }
+    }
+
+    await clearUpdateCache();
+    await queueBuildBaselines();
+
+    await cancelActivateVersion(versionId.toHexString());
+    await processDeleteVersion(versionId.toHexString());
+};
+
+const getClientCategories = (
+    os: OperatingSystems,
+    texture: TextureFormat,
+): number[] => [
+    UpdatesCategories.General,
+    PlatformLookup[os],
+    OperatingSystemLookup[os],
+    TextureLookup[texture],
+];
+
+interface IUpdateFile {
+    version: WithId<IMDBVersion>;
+    file: IMDBUpdateFile;
+}
+
+const resolveUpdateFiles = async (
+    versions: WithId<IMDBVersion>[],
+    filter: Filter<IMDBUpdateFile>,
+) => {
+    const filesMap = new Map<string, IUpdateFile>();
+    if (versions.length === 0) return filesMap;
+
+    const client = await getMongoClient();
+    if (!client) {
+        throw new Error('getMongoClient failed');
+    }
+
+    const versionsMap = new Map(
+        versions.map((version) => {
+            return [version._id!.toHexString(), version];
+        }),
+    );
+    const filesColl = client.db('updates').collection<IMDBUpdateFile>('files');
+    const filesCursor = filesColl.find({
+        $and: [
+            {
+                versionId: {
+                    $in: versions.map((version) => version._id!),
+                },
+            },
+            filter,
+        ],
+    });
+
+    for await (const file of filesCursor) {
+        const version = versionsMap.get(file.versionId.toHexString())!;
+        const fileData = filesMap.get(file.localPath);
+        if (fileData == null) {
+            filesMap.set(file.localPath, {
+                version,
+                file,
+            });
+        } else if (
+            compareVersions(fileData.version.version, version.version) < 0
+        ) {
+            fileData.version = version;
+            fileData.file = file;
+        }
+    }
+
+    return filesMap;
+};
+
+const applyUpdateDeletions = async (
+    versions: WithId<IMDBVersion>[],
+    filesMap: Map<string, IUpdateFile>,
+    filter: Filter<IMDBUpdateDeletion> = {},
+) => {
+    if (versions.length === 0) return new Set<string>();
+
+    const client = await getMongoClient();
+    if (!client) {
+        throw new Error('getMongoClient failed');
+    }
+
+    const versionsMap = new Map(
+        versions.map((version) => {
+            return [version._id!.toHexString(), version];
+        }),
+    );
+    const deletionsColl = client
+        .db('updates')
+        .collection<IMDBUpdateDeletion>('deletions');
+    const deletionsCursor = deletionsColl.find({
+        $and: [
+            {
+                versionId: {
+                    $in: versions.map((version) => version._id!),
+                },
+            },
+            filter,
+        ],
+    });
+
+    const deletions = await deletionsCursor
+        .map((deletion) => ({
+            localPath: deletion.localPath,
+            version: versionsMap.get(deletion.versionId.toHexString())!,
+        }))
+        .toArray();
+
+    return applyDeletions(filesMap, getLatestDeletions(deletions));
+};
+
+const resolveUpdateChanges = async (
+    channel: ReleaseChannel,
+    versions: WithId<IMDBVersion>[],
+    categories: number[],
+) => {
+    const categoriesFilter: Filter<IMDBUpdateFile> = {
+        category: { $in: categories },
+    };
+    const usableBaseline =
+        versions.length > 0
+            ? await getVersionsBaseline(channel, versions)
+            : null;
+    if (usableBaseline == null) {
+        const files = await resolveUpdateFiles(versions, categoriesFilter);
+        const deletions = await applyUpdateDeletions(versions, files);
+        return { files, deletions };
+    }
+
+    const { baseline, index } = usableBaseline;
+    const baselineVersions = versions.slice(0, index + 1);
+    const versionsMap = new Map(
+        baselineVersions.map((version) => {
+            return [version._id.toHexString(), version];
+        }),
+    );
+    const changes = await getBaselineChanges(
+        baseline._id,
+        baselineVersions.map((version) => version._id),
+        categories,
+    );
+
+    const files = new Map<string, IUpdateFile>();
+    for (const file of changes.files) {
+        const version = versionsMap.get(file.versionId.toHexString())!;
+        const fileData = files.get(file.localPath);
+        if (
+            fileData == null ||
+            compareVersions(fileData.version.version, version.version) < 0
+        ) {
+            files.set(file.localPath, {
+                version,
+                file,
+            });
+        }
+    }
+    const deletions = new Set(changes.deletions);
+
+    const remainingVersions = versions.slice(index + 1);
+    const remainingFiles = await resolveUpdateFiles(
+        remainingVersions,
+        categoriesFilter,
+    );
+    const remainingDeletions = await applyUpdateDeletions(
+        remainingVersions,
+        remainingFiles,
+    );
+    for (const localPath of remainingDeletions) {
+        files.delete(localPath);
+        deletions.add(localPath);
+    }
+    for (const [localPath, fileData] of remainingFiles) {
+        files.set(localPath, fileData);
+        deletions.delete(localPath);
+    }
+
+    return { files, deletions };
+};
+
+export const getUpdateVersions = async (
+    clientVersion: IVersion,
+    query: IRetrieveUpdateQuery,
+) => {
+    const { channel, clientId } = query;
+    const upgrade =
+        query.upgrade ||
+        query.target != null ||
+        compareVersions(clientVersion, InitialVersion) === 0;
+
+    const client = await getMongoClient();
+    if (!client) {
+        throw new Error('getMongoClient failed');
+    }
+
+    const versionsColl = client
+        .db('updates')
+        .collection<IMDBVersion>('versions');
+
+    const targetVersion =
+        query.target != null ? getVersionFromString(query.target) : null;
+    if (targetVersion != null) {
+        const target = await versionsColl.findOne(
+            {
+                $and: [
+                    getPublishedFilter(),
+                    getChannelFilter(channel),
+                    {
+                        'version.major': targetVersion.major,
+                        'version.minor': targetVersion.minor,
+                        'version.revision': targetVersion.revision,
+                    },
+                ],
+            },
+            {
+                projection: {
+                    _id: 1,
+                },
+            },
+        );
+        if (target == null) {
+            throw new ResponseError(
+                status.NOT_FOUND,
+                'invalid target version.',
+                `invalid target version, not published in the channel.`,
+            );
+        }
+    }
+
+    const versions = await versionsColl
+        .find({
+            $and: [
+                getPublishedFilter(),
+                getChannelFilter(channel),
+                getNewerVersionFilter(clientVersion),
+                ...(targetVersion != null
+                    ? [getOlderOrEqualVersionFilter(targetVersion)]
+                    : []),
+                ...(upgrade ? [] : [getVersionLineFilter(clientVersion)]),
+            ],
+        })
+        .sort({
+            'version.major': 1,
+            'version.minor': 1,
+            'version.revision': 1,
+        })
+        .toArray();
+
+    return selectClientVersions(
+        clientVersion,
+        versions,
+        upgrade,
+        clientId != null ? getRolloutBucket(clientId) : null,
+    );
+};
+
+/* Cached responses are shared by clients in different versions */
+const applyClientRequirements = (
+    clientVersion: IVersion,
+    result: IRetrieveUpdateResponse,
+): IRetrieveUpdateResponse => {
+    if (result.mandatory || result.minimumVersion == null) return result;
+
+    return {
+        ...result,
+        mandatory:
+            compareVersions(
+                clientVersion,
+                getVersionFromString(result.minimumVersion),
+            ) < 0,
+    };
+};
+
+export const getUpdateFiles = async (
+    major: number,
+    minor: number,
+    revision: number,
+    os: OperatingSystems,
+    texture: TextureFormat,
+    query: IRetrieveUpdateQuery,
+): Promise<IRetrieveUpdateResponse> => {
+    try {
+        const client = await getMongoClient();
+        if (!client) {
+            throw new Error('getMongoClient failed');
+        }
+
+        const { channel } = query;
+        const clientVersion: IVersion = { major, minor, revision };
+        const versionsColl = client
+            .db('updates')
+            .collection<IMDBVersion>('versions');
+
+        /* Files received from revoked versions are restored to the last good version */
+        const baseVersion = await versionsColl.findOne(
+            {
+                $and: [
+                    getPublishedFilter(),
+                    getChannelFilter(channel),
+                    getOlderOrEqualVersionFilter(clientVersion),
+                ],
+            },
+            {
+                sort: {
+                    'version.major': -1,
+                    'version.minor': -1,
+                    'version.revision': -1,
+                },
+            },
+        );
+        const revokedVersions = await versionsColl
+            .find({
+                $and: [
+                    {
+                        state: { $eq: VersionState.REVOKED },
+                    },
+                    getChannelFilter(channel),
+                    getOlderOrEqualVersionFilter(clientVersion),
+                    ...(baseVersion != null
+                        ? [getNewerVersionFilter(baseVersion.version)]
+                        : []),
+                ],
+            })
+            .toArray();
+
+        /* Without a good version left to restore, the client installs the channel again */
+        const versions = await getUpdateVersions(
+            revokedVersions.length > 0 && baseVersion == null
+                ? InitialVersion
+                : clientVersion,
+            query,
+        );
+
+        if (versions.length === 0 && revokedVersions.length === 0) {
+            return {
+                version: getVersionAsString(clientVersion),
+                mandatory: false,
+                minimumVersion: null,
+                files: [],
+                deletions: [],
+            };
+        }
+
+        const lastVersion =
+            versions.length > 0
+                ? versions[versions.length - 1].version
+                : (baseVersion?.version ?? InitialVersion);
+        const updateKey = formatUpdateKey(
+            channel,
+            revokedVersions.length > 0
+                ? `revoked:${getVersionAsString(clientVersion)}`
+                : getVersionAsString(versions[0].version),
+            getVersionAsString(lastVersion),
+            os,
+            texture,
+        );
+        const redis = await getRedisClient();
+        const updateData = await redis.get(updateKey);
+        if (updateData != null) {
+            return applyClientRequirements(
+                clientVersion,
+                JSON.parse(updateData),
+            );
+        }
+
+        const categories = getClientCategories(os, texture);
+        const categoriesFilter: Filter<IMDBUpdateFile> = {
+            category: { $in: categories },
+        };
+
+        let revokedPaths: string[] = [];
+        let restoredFiles = new Map<string, IUpdateFile>();
+        if (revokedVersions.length > 0) {
+            const filesColl = client
+                .db('updates')
+                .collection<IMDBUpdateFile>('files');
+            const deletionsColl = client
+                .db('updates')
+                .collection<IMDBUpdateDeletion>('deletions');
+            const revokedIds = revokedVersions.map((version) => version._id);
+            revokedPaths = [
+                ...new Set([
+                    ...(await filesColl.distinct('localPath', {
+                        $and: [
+                            {
+                                versionId: {
+                                    $in: revokedIds,
+                                },
+                            },
+                            categoriesFilter,
+                        ],
+                    })),
+                    ...(await deletionsColl.distinct('localPath', {
+                        versionId: {
+                            $in: revokedIds,
+                        },
+                    })),
+                ]),
+            ];
+
+            if (revokedPaths.length > 0 && baseVersion != null) {
+                const previousVersions = await versionsColl
+                    .find({
+                        $and: [
+                            getPublishedFilter(),
+                            getChannelFilter(channel),
+                            getOlderOrEqualVersionFilter(baseVersion.version),
+                        ],
+                    })
+                    .toArray();
+                restoredFiles = await resolveUpdateFiles(previousVersions, {
+                    $and: [
+                        {
+                            localPath: { $in: revokedPaths },
+                        },
+                        categoriesFilter,
+                    ],
+                });
+                await applyUpdateDeletions(previousVersions, restoredFiles, {
+                    localPath: { $in: revokedPaths },
+                });
+            }
+        }
+
+        const { files: updatedFiles, deletions: updatedDeletions } =
+            await resolveUpdateChanges(channel, versions, categories);
+        const { files: filesMap, deletions } = mergeRevokedChanges(
+            revokedPaths,
+            restoredFiles,
+            updatedFiles,
+            updatedDeletions,
+        );
+
+        const minimumVersion = versions.reduce<IVersion | null>(
+            (minimum, { minimumVersion }) =>
+                minimumVersion != null &&
+                (minimum == null ||
+                    compareVersions(minimumVersion, minimum) > 0)
+                    ? minimumVersion
+                    : minimum,
+            null,
+        );
 
-        const result = {
-            version: `${lastVersion.version.major}.${lastVersion.version.minor}.${lastVersion.version.revision}`,
+        const result: IRetrieveUpdateResponse = {
+            version: getVersionAsString(lastVersion),
+            mandatory: versions.some((version) => version.mandatory === true),
+            minimumVersion:
+                minimumVersion != null
+                    ? getVersionAsString(minimumVersion)
+                    : null,
             files: Array.from(filesMap.values()).map((f) => ({
                 UrlPath: f.version._id.toHexString().toUpperCase(),
                 LocalPath: f.file.localPath,
@@ -638,6 +1464,7 @@ export const getUpdateFiles = async (
                 OriginalSize: f.file.fileSize,
                 CRC32: f.file.crc32,
             })),
+            deletions: Array.from(deletions),
         };
 
         await redis.setex(
@@ -646,17 +1473,388 @@ export const getUpdateFiles = async (
             JSON.stringify(result),
         );
 
-        return result;
+        return applyClientRequirements(clientVersion, result);
     } catch (error) {
         logger.error(`[ERROR] getUpdateFiles failed : ${error}`);
         throw error;
     }
 };
 
+export const promoteVersion = async (
+    versionId: ObjectId,
+    channel: ReleaseChannel,
+) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new ResponseError(
+            status.UNAVAILABLE,
+            'service unavailable.',
+            `service unavailable, failed to connect mongodb.`,
+        );
+    }
+
+    const versionsColl = client
+        .db('updates')
+        .collection<IMDBVersion>('versions');
+
+    const version = await versionsColl.findOne({
+        _id: versionId,
+    });
+    if (version == null) {
+        throw new ResponseError(
+            status.NOT_FOUND,
+            'invalid version.',
+            `invalid version, not found in database.`,
+        );
+    }
+
+    if (version.state === VersionState.DELETING) {
+        throw new ResponseError(
+            status.FAILED_PRECONDITION,
+            'invalid version, it is being deleted.',
+        );
+    }
+
+    await versionsColl.updateOne(
+        {
+            _id: versionId,
+        },
+        {
+            $set: {
+                channel,
+                updatedAt: new Date(),
+            },
+        },
+    );
+
+    await clearUpdateCache();
+    await queueBuildBaselines();
+};
+
+export const setVersionRollout = async (
+    versionId: ObjectId,
+    rollout: number,
+) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new ResponseError(
+            status.UNAVAILABLE,
+            'service unavailable.',
+            `service unavailable, failed to connect mongodb.`,
+        );
+    }
+
+    const versionsColl = client
+        .db('updates')
+        .collection<IMDBVersion>('versions');
+
+    const result = await versionsColl.updateOne(
+        {
+            _id: versionId,
+        },
+        {
+            $set: {
+                rollout,
+                updatedAt: new Date(),
+            },
+        },
+    );
+    if (result.matchedCount === 0) {
+        throw new ResponseError(
+            status.NOT_FOUND,
+            'invalid version.',
+            `invalid version, not found in database.`,
+        );
+    }
+
+    await clearUpdateCache();
+    await queueBuildBaselines();
+};
+
+export const setVersionRequirements = async (
+    versionId: ObjectId,
+    mandatory: boolean,
+    minimumVersion: IVersion | null,
+) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new ResponseError(
+            status.UNAVAILABLE,
+            'service unavailable.',
+            `service unavailable, failed to connect mongodb.`,
+        );
+    }
+
+    const versionsColl = client
+        .db('updates')
+        .collection<IMDBVersion>('versions');
+
+    const version = await versionsColl.findOne({
+        _id: versionId,
+    });
+    if (version == null) {
+        throw new ResponseError(
+            status.NOT_FOUND,
+            'invalid version.',
+            `invalid version, not found in database.`,
+        );
+    }
+
+    if (
+        minimumVersion != null &&
+        compareVersions(minimumVersion, version.version) > 0
+    ) {
+        throw new ResponseError(
+            status.INVALID_ARGUMENT,
+            'invalid minimum version, it is newer than the version.',
+        );
+    }
+
+    await versionsColl.updateOne(
+        {
+            _id: versionId,
+        },
+        {
+            $set: {
+                mandatory,
+                updatedAt: new Date(),
+                ...(minimumVersion != null ? { minimumVersion } : {}),
+            },
+            ...(minimumVersion == null
+                ? {
+                      $unset: {
+                          minimumVersion: '',
+                      },
+                  }
+                : {}),
+        },
+    );
+
+    await clearUpdateCache();
+};
+
+export const getVersionDeletions = async (versionId: ObjectId) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new ResponseError(
+            status.UNAVAILABLE,
+            'service unavailable.',
+            `service unavailable, failed to connect mongodb.`,
+        );
+    }
+
+    const deletionsColl = client
+        .db('updates')
+        .collection<IMDBUpdateDeletion>('deletions');
+
+    return await deletionsColl
+        .find({
+            versionId,
+        })
+        .sort({
+            localPath: 1,
+        })
+        .toArray();
+};
+
+export const setVersionDeletions = async (
+    versionId: ObjectId,
+    localPaths: string[],
+) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new ResponseError(
+            status.UNAVAILABLE,
+            'service unavailable.',
+            `service unavailable, failed to connect mongodb.`,
+        );
+    }
+
+    const versionsColl = client
+        .db('updates')
+        .collection<IMDBVersion>('versions');
+    const deletionsColl = client
+        .db('updates')
+        .collection<IMDBUpdateDeletion>('deletions');
+
+    const version = await versionsColl.findOne({
+        _id: versionId,
+    });
+    if (version == null) {
+        throw new ResponseError(
+            status.NOT_FOUND,
+            'invalid version.',
+            `invalid version, not found in database.`,
+        );
+    }
+
+    if (version.state === VersionState.DELETING) {
+        throw new ResponseError(
+            status.FAILED_PRECONDITION,
+            'invalid version, it is being deleted.',
+        );
+    }
+
+    const createdAt = new Date();
+    const session = client.startSession();
+    session.startTransaction();
+    try {
+        await deletionsColl.deleteMany(
+            {
+                versionId,
+            },
+            {
+                session,
+            },
+        );
+        if (localPaths.length > 0) {
+            await deletionsColl.insertMany(
+                [...new Set(localPaths)].map((localPath) => ({
+                    versionId,
+                    localPath,
+                    createdAt,
+                })),
+                {
+                    session,
+                },
+            );
+        }
+
+        await session.commitTransaction();
+    } catch (error) {
+        await session.abortTransaction();
+        throw error;
+    } finally {
+        await session.endSession();
+    }
+
+    /* The versions included don't change, the baselines wouldn't be seen as outdated */
+    await invalidateBaselines();
+    await clearUpdateCache();
+    await queueBuildBaselines();
+};
+
+export const revokeVersion = async (versionId: ObjectId) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new ResponseError(
+            status.UNAVAILABLE,
+            'service unavailable.',
+            `service unavailable, failed to connect mongodb.`,
+        );
+    }
+
+    const versionsColl = client
+        .db('updates')
+        .collection<IMDBVersion>('versions');
+
+    const version = await versionsColl.findOne({
+        _id: versionId,
+    });
+    if (version == null) {
+        throw new ResponseError(
+            status.NOT_FOUND,
+            'invalid version.',
+            `invalid version, not found in database.`,
+        );
+    }
+
+    assertVersionTransition(version.state, VersionState.REVOKED);
+
+    const currentDate = new Date();
+    const result = await versionsColl.updateOne(
+        {
+            _id: versionId,
+            state: VersionState.READY,
+        },
+        {
+            $set: {
+                state: VersionState.REVOKED,
+                revokedAt: currentDate,
+                updatedAt: currentDate,
+            },
+        },
+    );
+    if (result.modifiedCount === 0) {
+        throw new ResponseError(
+            status.FAILED_PRECONDITION,
+            'invalid version, only ready versions can be revoked.',
+        );
+    }
+
+    await clearUpdateCache();
+    await queueBuildBaselines();
+};
+
+export const submitUploadManifest = async (
+    id: ObjectId,
+    files: IManifestFile[],
+): Promise<SubmitUploadManifestResponse__Output> => {
+    try {
+        const client = await getMongoClient();
+        if (!client) {
+            throw new Error('getMongoClient failed');
+        }
+
+        const versionsColl = client
+            .db('updates')
+            .collection<IMDBVersion>('versions');
+        const manifestsColl = client
+            .db('updates')
+            .collection<IMDBUploadManifest>('manifests');
+
+        const version = await versionsColl.findOne({
+            _id: id,
+        });
+        if (version == null) {
+            throw new ResponseError(
+                status.NOT_FOUND,
+                'invalid version.',
+                `invalid version, not found in database.`,
+            );
+        }
+
+        assertVersionState(
+            version.state,
+            [VersionState.PENDING],
+            'receive uploads',
+        );
+
+        const { baseVersion, neededPaths, deletedPaths } =
+            await getManifestChanges(version, files);
+
+        await manifestsColl.replaceOne(
+            {
+                versionId: id,
+            },
+            {
+                versionId: id,
+                baseVersionId: baseVersion?._id ?? null,
+                filesCount: files.length,
+                neededPaths,
+                deletedPaths,
+                createdAt: new Date(),
+            },
+            {
+                upsert: true,
+            },
+        );
+
+        return {
+            baseVersionId: baseVersion?._id.toHexString() ?? '',
+            neededPaths,
+            deletedPaths,
+        };
+    } catch (error) {
+        logger.error(`[ERROR] submitUploadManifest failed : ${error}`);
+        throw error;
+    }
+};
+
 export const startUploadVersion = async (
     id: ObjectId,
     hash: string,
-    type: string,
+    type: UploadArchiveType,
     chunkSize: number,
     fileSize: number,
 ): Promise<StartUploadVersionResponse__Output> => {
@@ -666,14 +1864,55 @@ export const startUploadVersion = async (
             throw new Error('getMongoClient failed');
         }
 
+        const versionsColl = client
+            .db('updates')
+            .collection<IMDBVersion>('versions');
         const uploadsColl = client
             .db('updates')
             .collection<IMDBUpload>('uploads');
 
+        const version = await versionsColl.findOne(
+            {
+                _id: id,
+            },
+            {
+                projection: {
+                    state: 1,
+                },
+            },
+        );
+        if (version == null) {
+            throw new ResponseError(
+                status.NOT_FOUND,
+                'invalid version.',
+                `invalid version, not found in database.`,
+            );
+        }
+
+        assertVersionState(
+            version.state,
+            [VersionState.PENDING],
+            'receive uploads',
+        );
+
         const currentDate = new Date();
         const uploadId = new ObjectId();
         const concurrentId = new ObjectId();
         const chunksCount = Math.ceil(fileSize / chunkSize);
+
+        const isSameUpload = {
+            $and: [
+                {
+                    $eq: [hash, '$hash'],
+                },
+                {
+                    $eq: [chunkSize, '$chunkSize'],
+                },
+                {
+                    $ne: ['$state', UploadState.EXPIRED],
+                },
+            ],
+        };
         const result = await uploadsColl.findOneAndUpdate(
             {
                 versionId: id,
@@ -686,32 +1925,14 @@ export const startUploadVersion = async (
                         },
                         concurrentId: {
                             $cond: {
-                                if: {
-                                    $and: [
-                                        {
-                                            $eq: [hash, '$hash'],
-                                        },
-                                        {
-                                            $eq: [chunkSize, '$chunkSize'],
-                                        },
-                                    ],
-                                },
+                                if: isSameUpload,
                                 then: '$concurrentId',
                                 else: concurrentId,
                             },
                         },
                         state: {
                             $cond: {
-                                if: {
-                                    $and: [
-                                        {
-                                            $eq: [hash, '$hash'],
-                                        },
-                                        {
-                                            $eq: [chunkSize, '$chunkSize'],
-                                        },
-                                    ],
-                                },
+                                if: isSameUpload,
                                 then: '$state',
                                 else: UploadState.NONE,
                             },
@@ -726,16 +1947,7 @@ export const startUploadVersion = async (
                         },
                         updatedAt: {
                             $cond: {
-                                if: {
-                                    $and: [
-                                        {
-                                            $eq: [hash, '$hash'],
-                                        },
-                                        {
-                                            $eq: [chunkSize, '$chunkSize'],
-                                        },
-                                    ],
-                                },
+                                if: isSameUpload,
                                 then: '$updatedAt',
                                 else: currentDate,
                             },
@@ -766,11 +1978,22 @@ export const startUploadVersion = async (
             .db('updates')
             .collection<IMDBUploadChunk>('chunks');
 
-        if (result.hash !== hash || result.chunkSize !== chunkSize) {
-            await chunksColl.deleteMany({ uploadId: result._id, concurrentId });
+        const isReset =
+            result.hash !== hash ||
+            result.chunkSize !== chunkSize ||
+            result.state === UploadState.EXPIRED;
+        if (isReset) {
+            await chunksColl.deleteMany({
+                uploadId: result._id,
+                concurrentId: result.concurrentId,
+            });
             await deleteFolder(
                 StorageType.Input,
-                `${id.toHexString()}/${hash}/`,
+                getInputFolder(
+                    result._id.toHexString(),
+                    result.hash,
+                    result.concurrentId.toHexString(),
+                ),
             );
         }
 
@@ -789,7 +2012,10 @@ export const startUploadVersion = async (
 
         return {
             uploadId: (result?._id ?? uploadId).toHexString(),
-            concurrentId: (result?.concurrentId ?? concurrentId).toHexString(),
+            concurrentId: (isReset
+                ? concurrentId
+                : result.concurrentId
+            ).toHexString(),
             missingRanges: getMissingRanges(
                 chunks.map((c) => c.offset),
                 chunksCount,
@@ -801,20 +2027,355 @@ export const startUploadVersion = async (
     }
 };
 
+const assertUploadChunk = (
+    upload: WithId<IMDBUpload>,
+    offset: number,
+    data: Buffer,
+    checksum: IUploadChunkChecksum,
+) => {
+    if (data.byteLength === 0) {
+        throw new ResponseError(status.INVALID_ARGUMENT, 'empty data buffer');
+    }
+
+    if (offset >= upload.chunksCount) {
+        throw new ResponseError(
+            status.INVALID_ARGUMENT,
+            'invalid chunk offset',
+        );
+    }
+
+    if (offset == upload.chunksCount - 1) {
+        if (
+            upload.fileSize - upload.chunkSize * (upload.chunksCount - 1) !=
+            data.byteLength
+        ) {
+            throw new ResponseError(
+                status.INVALID_ARGUMENT,
+                'invalid chunk size',
+            );
+        }
+    } else {
+        if (upload.chunkSize != data.byteLength) {
+            throw new ResponseError(
+                status.INVALID_ARGUMENT,
+                'invalid chunk size',
+            );
+        }
+    }
+
+    if (
+        calculateBufferChecksum(data, checksum.algorithm) !==
+        checksum.value.toLowerCase()
+    ) {
+        throw new ResponseError(
+            status.DATA_LOSS,
+            'invalid chunk checksum',
+            `invalid chunk checksum, chunk ${offset} doesn't match its ${checksum.algorithm} checksum`,
+        );
+    }
+};
+
+const storeUploadChunk = async (
+    upload: WithId<IMDBUpload>,
+    offset: number,
+    data: Buffer,
+) => {
+    await uploadBuffer(
+        StorageType.Input,
+        data,
+        getInputChunkFile(
+            getInputFolder(
+                upload._id.toHexString(),
+                upload.hash,
+                upload.concurrentId.toHexString(),
+            ),
+            offset,
+        ),
+    );
+};
+
+const getUploadChunkUpsert = (
+    upload: WithId<IMDBUpload>,
+    offset: number,
+    size: number,
+    checksum: IUploadChunkChecksum,
+): AnyBulkWriteOperation<IMDBUploadChunk> => ({
+    updateOne: {
+        filter: {
+            uploadId: upload._id,
+            concurrentId: upload.concurrentId,
+            offset,
+        },
+        update: {
+            $set: {
+                size,
+                checksum,
+            },
+            $setOnInsert: {
+                uploadId: upload._id,
+                concurrentId: upload.concurrentId,
+                offset,
+                createdAt: new Date(),
+            },
+        },
+        upsert: true,
+    },
+});
+
+const isUploadComplete = async (upload: WithId<IMDBUpload>) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new Error('getMongoClient failed');
+    }
+
+    const chunksColl = client
+        .db('updates')
+        .collection<IMDBUploadChunk>('chunks');
+    const chunksCount = await chunksColl.countDocuments({
+        uploadId: upload._id,
+        concurrentId: upload.concurrentId,
+    });
+
+    return upload.chunksCount === chunksCount;
+};
+
+const getReceivingUpload = async (
+    uploadId: ObjectId,
+    concurrentId: ObjectId,
+) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new Error('getMongoClient failed');
+    }
+
+    const uploadsColl = client.db('updates').collection<IMDBUpload>('uploads');
+
+    const upload = await uploadsColl.findOne({
+        _id: uploadId,
+        concurrentId,
+    });
+    if (upload == null) {
+        throw new ResponseError(
+            status.INVALID_ARGUMENT,
+            'invalid upload id or concurrent id',
+        );
+    }
+
+    assertUploadState(
+        upload.state,
+        [UploadState.NONE, UploadState.PENDING],
+        'receive chunks',
+    );
+
+    return upload;
+};
+
 export const uploadVersionChunk = async (
     uploadId: ObjectId,
     concurrentId: ObjectId,
     offset: number,
     data: Buffer,
+    checksum: IUploadChunkChecksum,
 ): Promise<UploadVersionChunkResponse__Output> => {
     try {
-        if (data.byteLength === 0) {
+        const client = await getMongoClient();
+        if (!client) {
+            throw new Error('getMongoClient failed');
+        }
+
+        const chunksColl = client
+            .db('updates')
+            .collection<IMDBUploadChunk>('chunks');
+
+        const upload = await getReceivingUpload(uploadId, concurrentId);
+        assertUploadChunk(upload, offset, data, checksum);
+        await storeUploadChunk(upload, offset, data);
+        await chunksColl.bulkWrite([
+            getUploadChunkUpsert(upload, offset, data.length, checksum),
+        ]);
+
+        return {
+            finished: await isUploadComplete(upload),
+        };
+    } catch (error) {
+        logger.error(`[ERROR] uploadVersionChunk failed : ${error}`);
+        throw error;
+    }
+};
+
+const UploadStreamAckInterval = 32;
+
+export const openUploadStream = async (
+    uploadId: ObjectId,
+    concurrentId: ObjectId,
+) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new Error('getMongoClient failed');
+    }
+
+    const chunksColl = client
+        .db('updates')
+        .collection<IMDBUploadChunk>('chunks');
+
+    const upload = await getReceivingUpload(uploadId, concurrentId);
+    let pendingChunks: AnyBulkWriteOperation<IMDBUploadChunk>[] = [];
+
+    const flush = async () => {
+        if (pendingChunks.length > 0) {
+            await chunksColl.bulkWrite(pendingChunks, { ordered: false });
+            pendingChunks = [];
+        }
+
+        const chunks = await chunksColl
+            .find(
+                {
+                    uploadId,
+                    concurrentId,
+                },
+                {
+                    projection: {
+                        offset: 1,
+                    },
+                },
+            )
+            .toArray();
+        return getMissingRanges(
+            chunks.map((c) => c.offset),
+            upload.chunksCount,
+        );
+    };
+
+    return {
+        upload,
+        write: async (
+            offset: number,
+            data: Buffer,
+            checksum: IUploadChunkChecksum,
+        ) => {
+            /* A corrupted chunk doesn't end the stream, it stays in the missing ranges */
+            try {
+                assertUploadChunk(upload, offset, data, checksum);
+            } catch (error) {
+                if (
+                    error instanceof ResponseError &&
+                    error.code === status.DATA_LOSS
+                ) {
+                    logger.error(
+                        `[ERROR] openUploadStream rejected chunk : ${error.log}`,
+                    );
+                    return await flush();
+                }
+                throw error;
+            }
+
+            await storeUploadChunk(upload, offset, data);
+            pendingChunks.push(
+                getUploadChunkUpsert(upload, offset, data.length, checksum),
+            );
+
+            if (pendingChunks.length < UploadStreamAckInterval) return null;
+            return await flush();
+        },
+        finish: async () => {
+            const missingRanges = await flush();
+            return {
+                missingRanges,
+                finished: missingRanges.length === 0,
+            };
+        },
+        close: async () => {
+            try {
+                if (pendingChunks.length > 0) {
+                    await chunksColl.bulkWrite(pendingChunks, {
+                        ordered: false,
+                    });
+                    pendingChunks = [];
+                }
+            } catch (error) {
+                logger.error(
+                    `[ERROR] openUploadStream close failed : ${error}`,
+                );
+            }
+        },
+    };
+};
+
+export const finalizeUpload = async (
+    uploadId: ObjectId,
+    concurrentId: ObjectId,
+    hash: string,
+) => {
+    try {
+        const client = await getMongoClient();
+        if (!client) {
+            throw new Error('getMongoClient failed');
+        }
+
+        const chunksColl = client
+            .db('updates')
+            .collection<IMDBUploadChunk>('chunks');
+
+        const upload = await getReceivingUpload(uploadId, concurrentId);
+        if (upload.hash.toLowerCase() !== hash.toLowerCase()) {
+            throw new ResponseError(
+                status.INVALID_ARGUMENT,
+                'invalid upload hash.',
+                `invalid upload hash, it doesn't match the one the upload was started with.`,
+            );
+        }
+
+        const chunks = await chunksColl
+            .find(
+                {
+                    uploadId,
+                    concurrentId,
+                },
+                {
+                    projection: {
+                        offset: 1,
+                    },
+                },
+            )
+            .toArray();
+        const missingRanges = getMissingRanges(
+            chunks.map((c) => c.offset),
+            upload.chunksCount,
+        );
+        if (missingRanges.length > 0) {
             throw new ResponseError(
-                StatusCodes.BAD_REQUEST,
-                'empty data buffer',
+                status.FAILED_PRECONDITION,
+                'invalid upload, chunks are missing.',
+                `invalid upload, chunks are missing (${missingRanges.map(([start, end]) => `${start}-${end}`).join(', ')}).`,
+            );
+        }
+
+        if (upload.state === UploadState.NONE) {
+            await setUploadState(
+                uploadId,
+                concurrentId,
+                UploadState.PENDING,
+                UploadState.NONE,
             );
         }
+        await processUpdateFile(
+            upload.versionId.toHexString(),
+            uploadId.toHexString(),
+            concurrentId.toHexString(),
+        );
+
+        return upload;
+    } catch (error) {
+        logger.error(`[ERROR] finalizeUpload failed : ${error}`);
+        throw error;
+    }
+};
 
+export const cancelUpload = async (
+    uploadId: ObjectId,
+    concurrentId: ObjectId,
+) => {
+    try {
         const client = await getMongoClient();
         if (!client) {
             throw new Error('getMongoClient failed');
@@ -833,96 +2394,67 @@ export const uploadVersionChunk = async (
         });
         if (upload == null) {
             throw new ResponseError(
-                StatusCodes.BAD_REQUEST,
-                'invalid upload id or concurrent id',
-            );
-        }
-
-        if (offset >= upload.chunksCount) {
-            throw new ResponseError(
-                StatusCodes.BAD_REQUEST,
-                'invalid chunk offset',
+                status.NOT_FOUND,
+                'invalid upload.',
+                `invalid upload, not found in database.`,
             );
         }
 
-        if (offset == upload.chunksCount - 1) {
-            if (
-                upload.fileSize - upload.chunkSize * (upload.chunksCount - 1) !=
-                data.byteLength
-            ) {
-                throw new ResponseError(
-                    StatusCodes.BAD_REQUEST,
-                    'invalid chunk size',
-                );
-            }
-        } else {
-            if (upload.chunkSize != data.byteLength) {
-                throw new ResponseError(
-                    StatusCodes.BAD_REQUEST,
-                    'invalid chunk size',
-                );
-            }
-        }
+        const cancellableStates = [
+            UploadState.NONE,
+            UploadState.PENDING,
+            UploadState.EXPIRED,
+        ];
+        assertUploadState(upload.state, cancellableStates, 'be cancelled');
 
-        await uploadBuffer(
-            StorageType.Input,
-            data,
-            path
-                .join(
-                    getInputFolder(
-                        uploadId.toHexString(),
-                        upload.hash,
-                        concurrentId.toHexString(),
-                    ),
-                    `${offset.toString().padStart(8, '0')}.data`,
-                )
-                .replaceAll('\\', '/'),
-        );
-
-        await chunksColl.updateOne(
+        const result = await uploadsColl.updateOne(
             {
-                uploadId,
+                _id: uploadId,
                 concurrentId,
-                offset,
+                state: { $in: cancellableStates },
             },
             {
-                $setOnInsert: {
-                    uploadId,
-                    concurrentId,
-                    offset,
-                    size: data.length,
-                    createdAt: new Date(),
+                $set: {
+                    concurrentId: new ObjectId(),
+                    state: UploadState.NONE,
+                    updatedAt: new Date(),
                 },
             },
-            {
-                upsert: true,
-            },
         );
+        if (result.modifiedCount === 0) {
+            throw new ResponseError(
+                status.FAILED_PRECONDITION,
+                'invalid upload, it changed while being cancelled.',
+            );
+        }
+
+        const job = await UpdatesQueue.getJob(
+            getUploadJobId(
+                upload.versionId.toHexString(),
+                uploadId.toHexString(),
+                concurrentId.toHexString(),
+            ),
+        );
+        if (job != null && !(await job.isActive())) {
+            await job.remove();
+        }
 
-        const chunksCount = await chunksColl.countDocuments({
+        await chunksColl.deleteMany({
             uploadId,
             concurrentId,
         });
-
-        if (upload.chunksCount === chunksCount) {
-            await setUploadState(
-                uploadId,
-                concurrentId,
-                UploadState.PENDING,
-                UploadState.NONE,
-            );
-            await processUpdateFile(
-                upload.versionId.toHexString(),
+        await deleteFolder(
+            StorageType.Input,
+            getInputFolder(
                 uploadId.toHexString(),
+                upload.hash,
                 concurrentId.toHexString(),
-            );
-        }
+            ),
+        );
 
-        return {
-            finished: upload.chunksCount === chunksCount,
-        };
+        return upload;
     } catch (error) {
-        logger.error(`[ERROR] uploadVersionChunk failed : ${error}`);
+        logger.error(`[ERROR] cancelUpload failed : ${error}`);
         throw error;
     }
 };
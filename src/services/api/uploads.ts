@@ -0,0 +1,134 @@
+import { status } from '@grpc/grpc-js';
+import { ObjectId } from 'mongodb';
+import { Readable } from 'node:stream';
+import { logger } from '~/logger';
+import { UploadState } from '~/proto/nextmu/v1/UploadState';
+import { UploadChecksumAlgorithm } from '~/shared';
+import { ResponseError } from '~/shared/error';
+import { getMissingRanges } from '~/utils';
+import { calculateCrc32c } from '~/utils/hash';
+import { splitUploadChunks } from '~/utils/uploads';
+import { getMongoClient } from '../mongodb/client';
+import type { IMDBUploadChunk } from '../mongodb/schemas/updates/chunks';
+import type { IMDBUpload } from '../mongodb/schemas/updates/uploads';
+import { finalizeUpload, uploadVersionChunk } from './update';
+
+/*
+    Byte offset the upload can be resumed from, chunks are stored whole
+    so it is the end of the first chunks received without gaps.
+*/
+export const getUploadOffset = async (
+    uploadId: ObjectId,
+    concurrentId: ObjectId,
+) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new ResponseError(
+            status.UNAVAILABLE,
+            'service unavailable.',
+            `service unavailable, failed to connect mongodb.`,
+        );
+    }
+
+    const uploadsColl = client.db('updates').collection<IMDBUpload>('uploads');
+    const chunksColl = client
+        .db('updates')
+        .collection<IMDBUploadChunk>('chunks');
+
+    const upload = await uploadsColl.findOne({
+        _id: uploadId,
+        concurrentId,
+    });
+    if (upload == null) {
+        throw new ResponseError(
+            status.NOT_FOUND,
+            'invalid upload.',
+            `invalid upload, not found in database.`,
+        );
+    }
+
+    const chunks = await chunksColl
+        .find(
+            {
+                uploadId,
+                concurrentId,
+            },
+            {
+                projection: {
+                    offset: 1,
+                },
+            },
+        )
+        .toArray();
+    const [firstMissing] = getMissingRanges(
+        chunks.map((c) => c.offset),
+        upload.chunksCount,
+    );
+
+    return {
+        upload,
+        offset:
+            firstMissing != null
+                ? firstMissing[0] * upload.chunkSize
+                : upload.fileSize,
+    };
+};
+
+/*
+    Stores the received data in the upload chunks, the body must end on a chunk
+    boundary except for the last one. Returns the offset the upload can be resumed from.
+*/
+export const writeUploadStream = async (
+    uploadId: ObjectId,
+    concurrentId: ObjectId,
+    offset: number,
+    stream: Readable,
+) => {
+    try {
+        const { upload, offset: currentOffset } = await getUploadOffset(
+            uploadId,
+            concurrentId,
+        );
+        if (offset !== currentOffset) {
+            throw new ResponseError(
+                status.ABORTED,
+                'invalid upload offset.',
+                `invalid upload offset, expected ${currentOffset} but received ${offset}.`,
+            );
+        }
+
+        /* A retried last request is answered again, the upload was already finalized */
+        if (offset === upload.fileSize && upload.state !== UploadState.NONE) {
+            return offset;
+        }
+
+        let newOffset = offset;
+        for await (const chunk of splitUploadChunks(upload, offset, stream)) {
+            /* tus requests carry no chunk checksum, it is computed from the received data */
+            await uploadVersionChunk(
+                uploadId,
+                concurrentId,
+                chunk.offset,
+                chunk.data,
+                {
+                    algorithm: UploadChecksumAlgorithm.CRC32C,
+                    value: calculateCrc32c(chunk.data),
+                },
+            );
+            newOffset = Math.min(
+                (chunk.offset + 1) * upload.chunkSize,
+                upload.fileSize,
+            );
+        }
+
+        /* tus has no finalize step, the upload is finalized once its last byte is received */
+        if (newOffset === upload.fileSize) {
+            await finalizeUpload(uploadId, concurrentId, upload.hash);
+        }
+
+        return newOffset;
+    } catch (error) {
+        logger.error(`[ERROR] writeUploadStream failed : ${error}`);
+        throw error;
+    }
+};
@@ -0,0 +1,330 @@
+import { status } from '@grpc/grpc-js';
+import type { JobProgress } from 'bullmq';
+import { ChangeStream, ObjectId, WithId } from 'mongodb';
+import { logger } from '~/logger';
+import { UploadState } from '~/proto/nextmu/v1/UploadState';
+import { VersionState } from '~/proto/nextmu/v1/VersionState';
+import { ResponseError } from '~/shared/error';
+import {
+    UpdateServiceJobType,
+    UpdatesQueue,
+    getUpdatesQueueEvents,
+} from '../bullmq';
+import { getMongoClient } from '../mongodb/client';
+import type { IMDBUploadChunk } from '../mongodb/schemas/updates/chunks';
+import type { IMDBUpload } from '../mongodb/schemas/updates/uploads';
+import type { IMDBVersion } from '../mongodb/schemas/updates/versions';
+
+/* Received chunks are reported at most once per interval, they arrive much faster */
+const UploadEventInterval = 250;
+
+export interface IVersionWatchUpload {
+    uploadId: string;
+    concurrentId: string;
+    state: UploadState;
+    receivedChunks: number;
+    chunksCount: number;
+}
+
+export interface IVersionWatchJob {
+    jobId: string;
+    type: UpdateServiceJobType;
+    state: 'active' | 'completed' | 'failed';
+    progress: number;
+    failedReason: string;
+}
+
+export interface IVersionWatchEvent {
+    state?: VersionState;
+    upload?: IVersionWatchUpload;
+    job?: IVersionWatchJob;
+    deleted?: boolean;
+}
+
+export interface IVersionWatchListener {
+    onEvent: (event: IVersionWatchEvent) => void;
+    onError: (error: unknown) => void;
+}
+
+/* Type of a job working on the version, from the job ids given when they are queued */
+const getVersionJobType = (versionId: string, jobId: string) => {
+    if (jobId === `version-${versionId}`)
+        return UpdateServiceJobType.ProcessPublishVersion;
+    if (jobId.startsWith(`version-${versionId}-`))
+        return UpdateServiceJobType.ProcessUploadVersion;
+    if (jobId === `version-activate-${versionId}`)
+        return UpdateServiceJobType.ProcessActivateVersion;
+    if (jobId === `version-delete-${versionId}`)
+        return UpdateServiceJobType.ProcessDeleteVersion;
+    return null;
+};
+
+/*
+    Reports the changes of a version until closed, state transitions and received chunks
+    come from change streams, which need mongodb to run as a replica set, and the progress
+    of its jobs from the queue events. The current state is reported first.
+*/
+export const watchVersion = async (
+    versionId: ObjectId,
+    listener: IVersionWatchListener,
+) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new ResponseError(
+            status.UNAVAILABLE,
+            'service unavailable.',
+            `service unavailable, failed to connect mongodb.`,
+        );
+    }
+
+    const versionsColl = client
+        .db('updates')
+        .collection<IMDBVersion>('versions');
+    const uploadsColl = client.db('updates').collection<IMDBUpload>('uploads');
+    const chunksColl = client
+        .db('updates')
+        .collection<IMDBUploadChunk>('chunks');
+
+    const id = versionId.toHexString();
+    const changeStreams: ChangeStream[] = [];
+    const queueEvents = getUpdatesQueueEvents();
+
+    let closed = false;
+    let upload: WithId<IMDBUpload> | null = null;
+    let receivedChunks = 0;
+    let uploadTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const emit = (event: IVersionWatchEvent) => {
+        if (!closed) listener.onEvent(event);
+    };
+    const fail = (error: unknown) => {
+        if (closed) return;
+        logger.error(`[ERROR] watchVersion failed : ${error}`);
+        close();
+        listener.onError(error);
+    };
+
+    const emitUpload = () => {
+        if (uploadTimer != null) {
+            clearTimeout(uploadTimer);
+            uploadTimer = null;
+        }
+        if (upload == null) return;
+
+        emit({
+            upload: {
+                uploadId: upload._id.toHexString(),
+                concurrentId: upload.concurrentId.toHexString(),
+                state: upload.state,
+                receivedChunks,
+                chunksCount: upload.chunksCount,
+            },
+        });
+    };
+
+    const countChunks = async (current: WithId<IMDBUpload>) =>
+        await chunksColl.countDocuments({
+            uploadId: current._id,
+            concurrentId: current.concurrentId,
+        });
+
+    const watchChunks = (uploadId: ObjectId) => {
+        const chunksStream = chunksColl.watch([
+            {
+                $match: {
+                    operationType: 'insert',
+                    'fullDocument.uploadId': uploadId,
+                },
+            },
+        ]);
+        chunksStream.on('change', (change) => {
+            if (change.operationType !== 'insert' || upload == null) return;
+            if (!change.fullDocument.concurrentId.equals(upload.concurrentId))
+                return;
+
+            ++receivedChunks;
+            uploadTimer ??= setTimeout(emitUpload, UploadEventInterval);
+        });
+        chunksStream.on('error', fail);
+        changeStreams.push(chunksStream);
+    };
+
+    const setUpload = async (current: WithId<IMDBUpload>) => {
+        /* A new concurrent id means the chunks were dropped */
+        const isRestarted =
+            upload == null || !upload.concurrentId.equals(current.concurrentId);
+        if (upload == null) watchChunks(current._id);
+
+        upload = current;
+        if (isRestarted) receivedChunks = await countChunks(current);
+        emitUpload();
+    };
+
+    const onJobEvent = (
+        jobId: string,
+        job: Omit<IVersionWatchJob, 'jobId' | 'type'>,
+    ) => {
+        const type = getVersionJobType(id, jobId);
+        if (type == null) return;
+        emit({
+            job: {
+                jobId,
+                type,
+                ...job,
+            },
+        });
+    };
+    const onJobActive = ({ jobId }: { jobId: string }) =>
+        onJobEvent(jobId, {
+            state: 'active',
+            progress: 0,
+            failedReason: '',
+        });
+    const onJobProgress = ({
+        jobId,
+        data,
+    }: {
+        jobId: string;
+        data: JobProgress;
+    }) =>
+        onJobEvent(jobId, {
+            state: 'active',
+            progress: typeof data === 'number' ? data : 0,
+            failedReason: '',
+        });
+    const onJobCompleted = ({ jobId }: { jobId: string }) =>
+        onJobEvent(jobId, {
+            state: 'completed',
+            progress: 100,
+            failedReason: '',
+        });
+    const onJobFailed = ({
+        jobId,
+        failedReason,
+    }: {
+        jobId: string;
+        failedReason: string;
+    }) =>
+        onJobEvent(jobId, {
+            state: 'failed',
+            progress: 0,
+            failedReason,
+        });
+
+    const close = () => {
+        if (closed) return;
+        closed = true;
+
+        if (uploadTimer != null) clearTimeout(uploadTimer);
+        queueEvents.off('active', onJobActive);
+        queueEvents.off('progress', onJobProgress);
+        queueEvents.off('completed', onJobCompleted);
+        queueEvents.off('failed', onJobFailed);
+        for (const changeStream of changeStreams) {
+            changeStream.close().catch(() => {});
+        }
+    };
+
+    try {
+        /* Listened before reading the current state so no change is missed */
+        const versionStream = versionsColl.watch(
+            [
+                {
+                    $match: {
+                        'documentKey._id': versionId,
+                    },
+                },
+            ],
+            {
+                fullDocument: 'updateLookup',
+            },
+        );
+        versionStream.on('change', (change) => {
+            if (change.operationType === 'delete') {
+                emit({ deleted: true });
+                return close();
+            }
+            if (
+                (change.operationType === 'update' ||
+                    change.operationType === 'replace') &&
+                change.fullDocument != null
+            ) {
+                emit({ state: change.fullDocument.state });
+            }
+        });
+        versionStream.on('error', fail);
+        changeStreams.push(versionStream);
+
+        const uploadsStream = uploadsColl.watch(
+            [
+                {
+                    $match: {
+                        'fullDocument.versionId': versionId,
+                    },
+                },
+            ],
+            {
+                fullDocument: 'updateLookup',
+            },
+        );
+        uploadsStream.on('change', (change) => {
+            if (
+                (change.operationType === 'insert' ||
+                    change.operationType === 'update' ||
+                    change.operationType === 'replace') &&
+                change.fullDocument != null
+            ) {
+                setUpload(change.fullDocument as WithId<IMDBUpload>).catch(
+                    fail,
+                );
+            }
+        });
+        uploadsStream.on('error', fail);
+        changeStreams.push(uploadsStream);
+
+        queueEvents.on('active', onJobActive);
+        queueEvents.on('progress', onJobProgress);
+        queueEvents.on('completed', onJobCompleted);
+        queueEvents.on('failed', onJobFailed);
+
+        const version = await versionsColl.findOne({
+            _id: versionId,
+        });
+        if (version == null) {
+            throw new ResponseError(
+                status.NOT_FOUND,
+                'invalid version.',
+                `invalid version, not found in database.`,
+            );
+        }
+        emit({ state: version.state });
+
+        const currentUpload = await uploadsColl.findOne({
+            versionId,
+        });
+        if (currentUpload != null) {
+            await setUpload(currentUpload);
+        }
+
+        /* Jobs already running only report their next progress */
+        const jobIds = [`version-${id}`];
+        if (currentUpload != null) {
+            jobIds.push(
+                `version-${id}-${currentUpload._id.toHexString()}-${currentUpload.concurrentId.toHexString()}`,
+            );
+        }
+        for (const jobId of jobIds) {
+            const job = await UpdatesQueue.getJob(jobId);
+            if (job == null || !(await job.isActive())) continue;
+            onJobProgress({ jobId, data: job.progress });
+        }
+    } catch (error) {
+        close();
+        logger.error(`[ERROR] watchVersion failed : ${error}`);
+        throw error;
+    }
+
+    return {
+        close,
+    };
+};
@@ -0,0 +1,93 @@
+import { ppath } from '@yarnpkg/fslib';
+import { ZipFS } from '@yarnpkg/libzip';
+import { execFile } from 'node:child_process';
+import { promises as fsAsync } from 'node:fs';
+import { resolve } from 'node:path';
+import { promisify } from 'node:util';
+import { logger } from '~/logger';
+import { UploadArchiveType } from '~/shared';
+
+const execFileAsync = promisify(execFile);
+
+type ArchiveExtractor = (filename: string, outputDir: string) => Promise<void>;
+
+async function makeDirectory(directory: string, recursive: boolean = false) {
+    try {
+        await fsAsync.mkdir(directory, { recursive });
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    } catch (_) {
+        /* empty */
+    }
+}
+
+async function unzipFile(filename: string, outputDir: string) {
+    let fs: ZipFS | null = null;
+    try {
+        const path = ppath.resolve(filename);
+        fs = new ZipFS(path, { create: false, readOnly: true });
+        const files = fs.getAllFiles();
+        await makeDirectory(outputDir, true);
+        for (const filePath of files) {
+            const stat = await fs.statPromise(filePath);
+            const outputPath = resolve(outputDir, './' + filePath.toString());
+            if (stat.isDirectory()) {
+                await makeDirectory(outputPath);
+                continue;
+            }
+            const data = Buffer.from(
+                await fs.readFilePromise(filePath, 'base64'),
+                'base64',
+            );
+            await fsAsync.writeFile(outputPath, data);
+        }
+    } catch (error) {
+        logger.error(`[ERROR] unzipFile failed : ${error}`);
+        throw new Error(`Failed : failed to extract archive (${error})`);
+    } finally {
+        fs?.discardAndClose();
+    }
+}
+
+/*
+    Tarballs are extracted by the system tar, it keeps the executable bits and
+    refuses members outside the output directory, zstd needs GNU tar 1.31 or newer.
+*/
+const untarFile =
+    (compression: string[]): ArchiveExtractor =>
+    async (filename, outputDir) => {
+        await makeDirectory(outputDir, true);
+        try {
+            await execFileAsync('tar', [
+                '-x',
+                ...compression,
+                '--no-same-owner',
+                '-f',
+                filename,
+                '-C',
+                outputDir,
+            ]);
+        } catch (error) {
+            throw new Error(`Failed : failed to extract archive (${error})`);
+        }
+    };
+
+/* Extractor used for each archive type an upload can be made of */
+export const ArchiveExtractors = new Map<UploadArchiveType, ArchiveExtractor>([
+    [UploadArchiveType.Zip, unzipFile],
+    [UploadArchiveType.Tar, untarFile([])],
+    [UploadArchiveType.TarGzip, untarFile(['--gzip'])],
+    [UploadArchiveType.TarZstd, untarFile(['--zstd'])],
+]);
+
+export const extractArchive = async (
+    type: UploadArchiveType,
+    filename: string,
+    outputDir: string,
+) => {
+    const extractor = ArchiveExtractors.get(type);
+    if (extractor == null) {
+        throw new Error(`Failed : unsupported archive type (${type})`);
+    }
+
+    await extractor(filename, outputDir);
+};
@@ -1,23 +1,28 @@
 import { AwsCrc32 } from '@aws-crypto/crc32';
-import { ppath } from '@yarnpkg/fslib';
-import { ZipFS } from '@yarnpkg/libzip';
+import { status } from '@grpc/grpc-js';
 import * as BullMQ from 'bullmq';
 import fsExtra from 'fs-extra';
 import moment from 'moment';
-import { ObjectId } from 'mongodb';
-import fs, {
-    createReadStream,
-    createWriteStream,
-    promises as fsAsync,
-} from 'node:fs';
-import { mkdir, rm, stat } from 'node:fs/promises';
-import path, { resolve } from 'node:path';
+import { Filter, ObjectId } from 'mongodb';
+import fs, { promises as fsAsync } from 'node:fs';
+import { mkdir } from 'node:fs/promises';
+import path from 'node:path';
 import MUUID from 'uuid-mongodb';
 import zlib from 'zlib';
+import { logger } from '~/logger';
 import { UploadState } from '~/proto/nextmu/v1/UploadState';
 import { VersionState } from '~/proto/nextmu/v1/VersionState';
+import {
+    buildBaseline,
+    getChannelVersions,
+} from '~/services/mongodb/baselines';
 import { getMongoClient } from '~/services/mongodb/client';
+import { getManifestBaseVersion } from '~/services/mongodb/manifests';
+import { IMDBUploadChunk } from '~/services/mongodb/schemas/updates/chunks';
+import { IMDBUpdateDeletion } from '~/services/mongodb/schemas/updates/deletions';
 import { IMDBUpdateFile } from '~/services/mongodb/schemas/updates/files';
+import { IMDBUploadManifest } from '~/services/mongodb/schemas/updates/manifests';
+import { IMDBReleaseNote } from '~/services/mongodb/schemas/updates/notes';
 import { IMDBUpload } from '~/services/mongodb/schemas/updates/uploads';
 import { IMDBVersion } from '~/services/mongodb/schemas/updates/versions';
 import {
@@ -25,17 +30,27 @@ import {
     setUploadState,
     setVersionState,
 } from '~/services/mongodb/update';
+import { clearUpdateCache } from '~/services/redis/update';
 import {
+    concatFiles,
+    deleteFile,
     deleteFolder,
     downloadFile,
-    downloadFolder,
-    uploadFile,
     uploadFolder,
 } from '~/services/storage';
 import { StorageType } from '~/services/storage/enums';
-import { fixedProgress } from '~/shared';
+import {
+    ReleaseChannel,
+    ReleaseChannels,
+    UploadArchiveExtensions,
+    UploadArchiveType,
+    fixedProgress,
+} from '~/shared';
+import { ResponseError } from '~/shared/error';
+import { assertUploadState, assertVersionState } from '~/shared/states';
 import {
     UpdateTypeLookup,
+    deletionsManifestPath,
     incomingFolders,
     incomingFoldersRegexes,
     incomingUpdatesPath,
@@ -44,12 +59,19 @@ import {
 import {
     FileInfo,
     enumerateFiles,
+    getInputChunkFile,
     getInputFolder,
+    getInputUploadFolder,
+    getPublishFolder,
     getUploadFile,
+    normalizeLocalPath,
 } from '~/utils';
-import { calculateFileHash } from '~/utils/hash';
+import { isHistoryShared } from '~/utils/updates';
 import { RedisConnection } from '../../redis';
+import { extractArchive } from './archives';
 import {
+    IProcessActivateVersionJobData,
+    IProcessDeleteVersionJobData,
     IProcessPublishVersionJobData,
     IProcessUploadVersionJobData,
     UpdateJobData,
@@ -62,6 +84,82 @@ export const UpdatesQueue = new BullMQ.Queue<UpdateJobData>(UpdatesQueueName, {
     connection: RedisConnection,
 });
 
+/* Events of the queue jobs, created on first use since it keeps a blocking connection */
+let updatesQueueEvents: BullMQ.QueueEvents | null = null;
+export const getUpdatesQueueEvents = () => {
+    if (updatesQueueEvents != null) return updatesQueueEvents;
+
+    updatesQueueEvents = new BullMQ.QueueEvents(UpdatesQueueName, {
+        connection: RedisConnection,
+    });
+    /* Every watcher adds its own listeners */
+    updatesQueueEvents.setMaxListeners(0);
+    return updatesQueueEvents;
+};
+
+const UploadsCleanupSchedulerId = 'uploads-cleanup';
+const UploadsCleanupInterval =
+    Number(process.env.UPLOADS_CLEANUP_INTERVAL_MINUTES ?? 60) * 60 * 1000;
+const UploadsExpiration =
+    Number(process.env.UPLOADS_EXPIRATION_HOURS ?? 48) * 60 * 60 * 1000;
+
+/* Repeats the cleanup of abandoned uploads, scheduling it again only updates it */
+export const scheduleCleanupUploads = async () => {
+    await UpdatesQueue.upsertJobScheduler(
+        UploadsCleanupSchedulerId,
+        {
+            every: UploadsCleanupInterval,
+        },
+        {
+            name: 'Cleanup Uploads',
+            data: {
+                type: UpdateServiceJobType.ProcessCleanupUploads,
+                data: {},
+            },
+            opts: {
+                removeOnComplete: 10,
+                removeOnFail: 10,
+            },
+        },
+    );
+};
+
+const BaselinesJobId = 'baselines-build';
+const BaselinesJobDelay = 5000;
+
+/*
+    Changes happening together are grouped in a single delayed rebuild, a rebuild
+    already running may have read the versions before the change so another one
+    is queued after it.
+*/
+export const queueBuildBaselines = async () => {
+    let jobId: string | null = null;
+    for (const candidateId of [BaselinesJobId, `${BaselinesJobId}-next`]) {
+        const job = await UpdatesQueue.getJob(candidateId);
+        if (job) {
+            if ((await job.isWaiting()) || (await job.isDelayed())) return;
+            if (await job.isActive()) continue;
+            await job.remove();
+        }
+
+        jobId = candidateId;
+        break;
+    }
+
+    await UpdatesQueue.add(
+        'Build Baselines',
+        {
+            type: UpdateServiceJobType.ProcessBuildBaselines,
+            data: {},
+        },
+        {
+            jobId: jobId ?? `${BaselinesJobId}-${Date.now()}`,
+            delay: BaselinesJobDelay,
+            removeOnComplete: true,
+        },
+    );
+};
+
 const zlibDeflateAsync = (buffer: zlib.InputType): Promise<Buffer> => {
     return new Promise<Buffer>((resolve, reject) => {
         zlib.deflate(
@@ -100,39 +198,6 @@ interface FileInfoExt extends FileInfo {
     packedSize?: number;
 }
 
-async function makeDirectory(directory: string, recursive: boolean = false) {
-    try {
-        await fsAsync.mkdir(directory, { recursive });
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    } catch (_) {
-        /* empty */
-    }
-}
-
-async function unzipFile(filename: string, outputDir: string) {
-    try {
-        const path = ppath.resolve(filename);
-        const fs = new ZipFS(path, { create: false, readOnly: true });
-        const files = fs.getAllFiles();
-        await makeDirectory(outputDir, true);
-        for (const filePath of files) {
-            const stat = await fs.statPromise(filePath);
-            const outputPath = resolve(outputDir, './' + filePath.toString());
-            if (stat.isDirectory()) {
-                await makeDirectory(outputPath);
-                continue;
-            }
-            const data = Buffer.from(
-                await fs.readFilePromise(filePath, 'base64'),
-                'base64',
-            );
-            await fsAsync.writeFile(outputPath, data);
-        }
-    } catch (err) {
-        console.log(err);
-    }
-}
-
 const reportProcessFiles = (
     job: BullMQ.Job,
     processedCount: number,
@@ -150,6 +215,29 @@ const reportProcessFiles = (
 const getJobProgress = (low: number, high: number, progress: number) =>
     low + (high - low) * progress;
 
+/* One client relative path per line, empty lines and lines starting with # are ignored */
+const readDeletionsManifest = async (decompressPath: string) => {
+    const manifestPath = path.join(decompressPath, deletionsManifestPath);
+    if (!fs.existsSync(manifestPath)) return [];
+
+    const deletions = new Set<string>();
+    const lines = (await fsAsync.readFile(manifestPath, 'utf-8')).split(
+        /\r?\n/,
+    );
+    for (const line of lines) {
+        const value = line.trim();
+        if (value.length === 0 || value.startsWith('#')) continue;
+
+        const localPath = normalizeLocalPath(value);
+        if (localPath == null) {
+            throw new Error(`Failed : invalid deleted path (${value})`);
+        }
+        deletions.add(localPath);
+    }
+
+    return Array.from(deletions);
+};
+
 const processUploadVersion = async (
     job: BullMQ.Job<UpdateJobData>,
     data: IProcessUploadVersionJobData,
@@ -170,107 +258,57 @@ const processUploadVersion = async (
         concurrentId: new ObjectId(concurrentId),
     });
     if (upload == null || upload.versionId.equals(versionId) == false) {
-        return;
+        throw new BullMQ.UnrecoverableError(
+            `invalid upload, not found in database.`,
+        );
     }
 
-    await setUploadState(
-        _uploadId,
-        _concurrentId,
-        UploadState.PROCESSING,
-        UploadState.PENDING,
+    /* A processing upload belongs to a stalled job which is resumed */
+    assertUploadState(
+        upload.state,
+        [UploadState.PENDING, UploadState.PROCESSING],
+        'be processed',
     );
-
-    const uploadPath = `uploads/${versionId.toUpperCase()}-${uploadId.toUpperCase()}-${concurrentId.toUpperCase()}/`;
-    const incomingPath = path.join(incomingUpdatesPath, uploadPath);
-    const processedPath = path.join(processedUpdatesPath, uploadPath);
-
-    await deleteDirectory(incomingPath);
-    await deleteDirectory(processedPath);
-    await mkdir(incomingPath, { recursive: true });
-    await mkdir(processedPath, { recursive: true });
+    if (upload.state === UploadState.PENDING) {
+        await setUploadState(
+            _uploadId,
+            _concurrentId,
+            UploadState.PROCESSING,
+            UploadState.PENDING,
+        );
+    }
 
     try {
-        const downloadProgress = [0, 50];
-        const processProgress = [50, 90];
-        const uploadProgress = [90, 100];
-
+        /* Chunks are streamed from the input storage into the archive, nothing is written to the local disk */
         const filesPrefix = getInputFolder(uploadId, upload.hash, concurrentId);
-        await downloadFolder(StorageType.Input, filesPrefix, incomingPath, {
-            onProgress: (progress) =>
-                job.updateProgress(
-                    getJobProgress(
-                        downloadProgress[0],
-                        downloadProgress[1],
-                        progress,
-                    ),
-                ),
-        });
-
-        const files: FileInfoExt[] = await enumerateFiles(incomingPath);
-        for (const file of files) {
-            const stats = await stat(path.join(incomingPath, file.path));
-            file.fileSize = stats.size;
-        }
-
-        const readSize = files.reduce(
-            (previousValue, currentValue) =>
-                previousValue + currentValue.fileSize!,
-            0,
-        );
-        let writtenSize = 0;
-
-        const filename = path.join(processedPath, 'update.zip');
-        const writeStream = createWriteStream(filename, 'binary');
-        try {
-            for (const file of files) {
-                const readStream = createReadStream(file.fullPath, 'binary');
-
-                await new Promise<void>((resolve, reject) => {
-                    readStream.on('data', (chunk) => {
-                        if (typeof chunk === 'string') return;
-                        writtenSize += chunk.byteLength;
-                        job.updateProgress(
-                            getJobProgress(
-                                processProgress[0],
-                                processProgress[1],
-                                writtenSize / readSize,
-                            ),
-                        );
-                    });
-                    readStream.on('error', (err) => reject(err));
-                    readStream.on('end', () => resolve());
-
-                    readStream.pipe(writeStream, { end: false });
-                });
-            }
-
-            writeStream.end();
-        } catch (e) {
-            writeStream.end();
-            await rm(filename);
-            throw e;
-        }
-
-        const calculatedHash = await calculateFileHash(filename);
-        if (calculatedHash !== upload.hash) {
-            return;
-        }
-
-        await uploadFile(
+        const archiveFile = getUploadFile(versionId, upload.type);
+        const calculatedHash = await concatFiles(
             StorageType.Input,
-            filename,
-            getUploadFile(versionId),
+            Array.from({ length: upload.chunksCount }, (_, offset) =>
+                getInputChunkFile(filesPrefix, offset),
+            ),
+            archiveFile,
             {
                 onProgress: (progress) =>
-                    job.updateProgress(
-                        getJobProgress(
-                            uploadProgress[0],
-                            uploadProgress[1],
-                            progress,
-                        ),
-                    ),
+                    job.updateProgress(getJobProgress(0, 100, progress)),
             },
         );
+        if (calculatedHash !== upload.hash) {
+            /* Received chunks are corrupted, the whole file has to be uploaded again */
+            await deleteFile(StorageType.Input, archiveFile);
+            await deleteFolder(StorageType.Input, filesPrefix);
+            await deleteUploadChunks(_uploadId);
+            await setUploadState(
+                _uploadId,
+                _concurrentId,
+                UploadState.NONE,
+                UploadState.PROCESSING,
+            );
+            throw new BullMQ.UnrecoverableError(
+                `Failed : upload hash mismatch, it has to be uploaded again`,
+            );
+        }
+
         await setUploadState(
             _uploadId,
             _concurrentId,
@@ -279,9 +317,27 @@ const processUploadVersion = async (
         );
         await deleteFolder(StorageType.Input, filesPrefix);
         await deleteUploadChunks(_uploadId);
-    } finally {
-        await deleteDirectory(incomingPath);
-        await deleteDirectory(processedPath);
+    } catch (error) {
+        /* Let the upload be processed again unless the failure already changed its state */
+        const { state } = (await uploadsColl.findOne(
+            {
+                _id: _uploadId,
+            },
+            {
+                projection: {
+                    state: 1,
+                },
+            },
+        ))!;
+        if (state === UploadState.PROCESSING) {
+            await setUploadState(
+                _uploadId,
+                _concurrentId,
+                UploadState.PENDING,
+                UploadState.PROCESSING,
+            );
+        }
+        throw error;
     }
 };
 
@@ -299,7 +355,7 @@ const processPublishVersion = async (
 ) => {
     const { versionId } = data;
     const _versionId = new ObjectId(versionId);
-    const uploadPath = `publish/${versionId.toUpperCase()}/`;
+    const uploadPath = getPublishFolder(versionId);
     const incomingPath = path.join(incomingUpdatesPath, uploadPath);
     const decompressPath = path.join(
         incomingUpdatesPath,
@@ -317,19 +373,45 @@ const processPublishVersion = async (
         .db('updates')
         .collection<IMDBVersion>('versions');
 
+    const uploadsColl = client.db('updates').collection<IMDBUpload>('uploads');
+    const manifestsColl = client
+        .db('updates')
+        .collection<IMDBUploadManifest>('manifests');
+
     const version = await versionsColl.findOne({
         _id: _versionId,
     });
-    if (version == null || version.state === VersionState.READY) {
-        return;
+    if (version == null) {
+        throw new BullMQ.UnrecoverableError(
+            `invalid version, not found in database.`,
+        );
     }
 
-    await setVersionState(
-        _versionId,
-        VersionState.PROCESSING,
-        VersionState.PENDING,
+    /* A processing version belongs to a stalled job which is resumed */
+    assertVersionState(
+        version.state,
+        [VersionState.PENDING, VersionState.PROCESSING],
+        'be published',
     );
 
+    const upload = await uploadsColl.findOne({
+        versionId: _versionId,
+        state: UploadState.READY,
+    });
+    if (upload == null) {
+        throw new BullMQ.UnrecoverableError(
+            `invalid version, it has no ready upload.`,
+        );
+    }
+
+    if (version.state === VersionState.PENDING) {
+        await setVersionState(
+            _versionId,
+            VersionState.PROCESSING,
+            VersionState.PENDING,
+        );
+    }
+
     await deleteDirectory(incomingPath);
     await deleteDirectory(processedPath);
     await mkdir(decompressPath, { recursive: true });
@@ -340,10 +422,13 @@ const processPublishVersion = async (
         const processProgress = [20, 50];
         const uploadProgress = [50, 90];
 
-        const versionFile = path.join(incomingPath, 'update.zip');
+        const versionFile = path.join(
+            incomingPath,
+            `update.${UploadArchiveExtensions[upload.type]}`,
+        );
         await downloadFile(
             StorageType.Input,
-            getUploadFile(versionId),
+            getUploadFile(versionId, upload.type),
             versionFile,
             {
                 onProgress: (progress) =>
@@ -357,7 +442,7 @@ const processPublishVersion = async (
             },
         );
 
-        await unzipFile(versionFile, decompressPath);
+        await extractArchive(upload.type, versionFile, decompressPath);
 
         const filesList: Array<FileInfoExt[]> = new Array<FileInfoExt[]>(
             incomingFolders.length,
@@ -383,7 +468,71 @@ const processPublishVersion = async (
             }
         }
 
-        if (filesCount === 0) {
+        const deletedPaths = await readDeletionsManifest(decompressPath);
+        for (const files of filesList) {
+            const file = files.find((file) =>
+                deletedPaths.includes(normalizeLocalPath(file.path)!),
+            );
+            if (file != null) {
+                throw new Error(
+                    `Failed : file is both updated and deleted (${file.path})`,
+                );
+            }
+        }
+
+        /* Delta uploads only contain the files listed as needed by their manifest */
+        const manifest = await manifestsColl.findOne({
+            versionId: _versionId,
+        });
+        if (manifest != null) {
+            const baseVersion = await getManifestBaseVersion(version);
+            if (
+                (baseVersion?._id.toHexString() ?? null) !==
+                (manifest.baseVersionId?.toHexString() ?? null)
+            ) {
+                throw new BullMQ.UnrecoverableError(
+                    `invalid upload manifest, its base version isn't the latest published one anymore.`,
+                );
+            }
+            if (
+                baseVersion != null &&
+                !isHistoryShared(
+                    await getChannelVersions(
+                        baseVersion.channel ?? ReleaseChannel.Stable,
+                        baseVersion.version,
+                    ),
+                )
+            ) {
+                throw new BullMQ.UnrecoverableError(
+                    `invalid upload manifest, clients of its base version may have different files.`,
+                );
+            }
+
+            const uploadedPaths = new Set(
+                filesList.flatMap((files) =>
+                    files.map((file) => normalizeLocalPath(file.path)!),
+                ),
+            );
+            const missingPath = manifest.neededPaths.find(
+                (localPath) => !uploadedPaths.has(localPath),
+            );
+            if (missingPath != null) {
+                throw new Error(
+                    `Failed : file needed by the upload manifest is missing (${missingPath})`,
+                );
+            }
+
+            for (const localPath of manifest.deletedPaths) {
+                if (
+                    !uploadedPaths.has(localPath) &&
+                    !deletedPaths.includes(localPath)
+                ) {
+                    deletedPaths.push(localPath);
+                }
+            }
+        }
+
+        if (filesCount === 0 && deletedPaths.length === 0) {
             throw new Error(`Failed : empty update folder`);
         }
 
@@ -476,13 +625,56 @@ const processPublishVersion = async (
             const filesColl = client
                 .db('updates')
                 .collection<IMDBUpdateFile>('files');
-            await filesColl.insertMany(files, {
-                session,
-            });
+            if (files.length > 0) {
+                await filesColl.insertMany(files, {
+                    session,
+                });
+            }
+
+            if (deletedPaths.length > 0) {
+                const deletionsColl = client
+                    .db('updates')
+                    .collection<IMDBUpdateDeletion>('deletions');
+                /* Deletions can already be declared through the API */
+                await deletionsColl.bulkWrite(
+                    deletedPaths.map((localPath) => ({
+                        updateOne: {
+                            filter: {
+                                versionId: versionOid,
+                                localPath,
+                            },
+                            update: {
+                                $setOnInsert: {
+                                    versionId: versionOid,
+                                    localPath,
+                                    createdAt,
+                                },
+                            },
+                            upsert: true,
+                        },
+                    })),
+                    {
+                        session,
+                    },
+                );
+            }
 
+            const { activateAt } = (await versionsColl.findOne(
+                {
+                    _id: _versionId,
+                },
+                {
+                    projection: {
+                        activateAt: 1,
+                    },
+                    session,
+                },
+            ))!;
             await setVersionState(
                 _versionId,
-                VersionState.READY,
+                activateAt == null || activateAt <= new Date()
+                    ? VersionState.READY
+                    : VersionState.SCHEDULED,
                 VersionState.PROCESSING,
                 session,
             );
@@ -494,19 +686,424 @@ const processPublishVersion = async (
         } finally {
             await session.endSession();
         }
+
+        await queueBuildBaselines();
+    } catch (error) {
+        /* Let the version be published again unless the failure happened after it was */
+        const { state } = (await versionsColl.findOne(
+            {
+                _id: _versionId,
+            },
+            {
+                projection: {
+                    state: 1,
+                },
+            },
+        ))!;
+        if (state === VersionState.PROCESSING) {
+            await setVersionState(
+                _versionId,
+                VersionState.PENDING,
+                VersionState.PROCESSING,
+            );
+        }
+        throw error;
     } finally {
         await deleteDirectory(incomingPath);
         await deleteDirectory(processedPath);
     }
 };
 
+const processDeleteVersion = async (
+    job: BullMQ.Job<UpdateJobData>,
+    data: IProcessDeleteVersionJobData,
+) => {
+    const { versionId } = data;
+    const _versionId = new ObjectId(versionId);
+
+    const client = await getMongoClient();
+    if (!client) {
+        throw new Error(`getMongoClient failed`);
+    }
+
+    const versionsColl = client
+        .db('updates')
+        .collection<IMDBVersion>('versions');
+    const uploadsColl = client.db('updates').collection<IMDBUpload>('uploads');
+    const chunksColl = client
+        .db('updates')
+        .collection<IMDBUploadChunk>('chunks');
+    const filesColl = client.db('updates').collection<IMDBUpdateFile>('files');
+    const notesColl = client.db('updates').collection<IMDBReleaseNote>('notes');
+    const deletionsColl = client
+        .db('updates')
+        .collection<IMDBUpdateDeletion>('deletions');
+    const manifestsColl = client
+        .db('updates')
+        .collection<IMDBUploadManifest>('manifests');
+
+    /* Already deleted by a previous attempt */
+    const version = await versionsColl.findOne({
+        _id: _versionId,
+    });
+    if (version == null) {
+        return;
+    }
+
+    assertVersionState(version.state, [VersionState.DELETING], 'be deleted');
+
+    /* Update lists cached before it was marked as deleting still point at its files */
+    await clearUpdateCache();
+
+    const storageProgress = [0, 80];
+    const databaseProgress = [80, 100];
+
+    const uploads = await uploadsColl
+        .find(
+            {
+                versionId: _versionId,
+            },
+            {
+                projection: {
+                    _id: 1,
+                    type: 1,
+                },
+            },
+        )
+        .toArray();
+    const uploadIds = uploads.map((upload) => upload._id);
+    const uploadTypes = new Set([
+        UploadArchiveType.Zip,
+        ...uploads.map((upload) => upload.type),
+    ]);
+
+    /* Delete storage objects, upload chunks + upload files + published files */
+    const storageCount = uploads.length + uploadTypes.size + 1;
+    let storageDeleted = 0;
+    const reportStorage = () =>
+        job.updateProgress(
+            fixedProgress(
+                getJobProgress(
+                    storageProgress[0],
+                    storageProgress[1],
+                    ++storageDeleted / storageCount,
+                ),
+            ),
+        );
+
+    for (const uploadId of uploadIds) {
+        await deleteFolder(
+            StorageType.Input,
+            getInputUploadFolder(uploadId.toHexString()),
+        );
+        await reportStorage();
+    }
+
+    for (const type of uploadTypes) {
+        await deleteFile(StorageType.Input, getUploadFile(versionId, type));
+        await reportStorage();
+    }
+
+    await deleteFolder(StorageType.Output, getPublishFolder(versionId));
+    await reportStorage();
+
+    /* Delete database documents, the version is removed last so a failed job can be retried */
+    await chunksColl.deleteMany({
+        uploadId: {
+            $in: uploadIds,
+        },
+    });
+    await job.updateProgress(
+        getJobProgress(databaseProgress[0], databaseProgress[1], 0.5),
+    );
+
+    await filesColl.deleteMany({
+        versionId: _versionId,
+    });
+    await uploadsColl.deleteMany({
+        versionId: _versionId,
+    });
+    await notesColl.deleteMany({
+        versionId: _versionId,
+    });
+    await deletionsColl.deleteMany({
+        versionId: _versionId,
+    });
+    await manifestsColl.deleteMany({
+        versionId: _versionId,
+    });
+    await versionsColl.deleteOne({
+        _id: _versionId,
+        state: VersionState.DELETING,
+    });
+    await job.updateProgress(databaseProgress[1]);
+
+    await clearUpdateCache();
+    await queueBuildBaselines();
+};
+
+const processActivateVersion = async (
+    job: BullMQ.Job<UpdateJobData>,
+    data: IProcessActivateVersionJobData,
+) => {
+    const { versionId } = data;
+
+    const client = await getMongoClient();
+    if (!client) {
+        throw new Error(`getMongoClient failed`);
+    }
+
+    const versionsColl = client
+        .db('updates')
+        .collection<IMDBVersion>('versions');
+
+    const version = await versionsColl.findOne({
+        _id: new ObjectId(versionId),
+    });
+    if (version == null) {
+        throw new BullMQ.UnrecoverableError(
+            `invalid version, not found in database.`,
+        );
+    }
+
+    assertVersionState(version.state, [VersionState.SCHEDULED], 'be activated');
+
+    const currentDate = new Date();
+    const result = await versionsColl.updateOne(
+        {
+            _id: new ObjectId(versionId),
+            state: VersionState.SCHEDULED,
+            activateAt: { $lte: currentDate },
+        },
+        {
+            $set: {
+                state: VersionState.READY,
+                updatedAt: currentDate,
+            },
+        },
+    );
+
+    if (result.modifiedCount > 0) {
+        await clearUpdateCache();
+        await queueBuildBaselines();
+    }
+};
+
+const BaselinesMaxPasses = 3;
+
+const processBuildBaselines = async (job: BullMQ.Job<UpdateJobData>) => {
+    /* Versions published while building make another pass necessary */
+    for (let pass = 0; pass < BaselinesMaxPasses; ++pass) {
+        let rebuilt = false;
+        for (const channel of ReleaseChannels) {
+            if (await buildBaseline(channel)) {
+                rebuilt = true;
+            }
+        }
+        await job.updateProgress(
+            fixedProgress(((pass + 1) / BaselinesMaxPasses) * 100),
+        );
+        if (!rebuilt) break;
+    }
+};
+
+interface IUploadsCleanupReport {
+    uploads: number;
+    chunks: number;
+    bytes: number;
+}
+
+const getChunksUsage = async (filter: Filter<IMDBUploadChunk>) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new Error(`getMongoClient failed`);
+    }
+
+    const chunksColl = client
+        .db('updates')
+        .collection<IMDBUploadChunk>('chunks');
+    const [usage] = await chunksColl
+        .aggregate<{ count: number; size: number }>([
+            {
+                $match: filter,
+            },
+            {
+                $group: {
+                    _id: null,
+                    count: { $sum: 1 },
+                    size: { $sum: '$size' },
+                },
+            },
+        ])
+        .toArray();
+
+    return usage ?? { count: 0, size: 0 };
+};
+
+/*
+    Expires the uploads without any chunk received for longer than the expiration,
+    their chunks are deleted and they have to be started again.
+    Chunks left by a deleted upload or by one started again with another file are deleted too,
+    the files of the latter are already deleted when it is started again.
+*/
+const processCleanupUploads = async (job: BullMQ.Job<UpdateJobData>) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new Error(`getMongoClient failed`);
+    }
+
+    const uploadsColl = client.db('updates').collection<IMDBUpload>('uploads');
+    const chunksColl = client
+        .db('updates')
+        .collection<IMDBUploadChunk>('chunks');
+
+    const expiredAt = new Date(Date.now() - UploadsExpiration);
+    const report: IUploadsCleanupReport = {
+        uploads: 0,
+        chunks: 0,
+        bytes: 0,
+    };
+
+    const staleUploads = await uploadsColl
+        .find({
+            state: UploadState.NONE,
+            updatedAt: { $lt: expiredAt },
+        })
+        .toArray();
+    for (const upload of staleUploads) {
+        const recentChunk = await chunksColl.findOne(
+            {
+                uploadId: upload._id,
+                createdAt: { $gte: expiredAt },
+            },
+            {
+                projection: {
+                    _id: 1,
+                },
+            },
+        );
+        if (recentChunk != null) continue;
+
+        /* Expired first, an upload resumed meanwhile keeps its chunks */
+        try {
+            await setUploadState(
+                upload._id,
+                upload.concurrentId,
+                UploadState.EXPIRED,
+                UploadState.NONE,
+            );
+        } catch (error) {
+            if (
+                error instanceof ResponseError &&
+                error.code === status.FAILED_PRECONDITION
+            ) {
+                continue;
+            }
+            throw error;
+        }
+
+        const usage = await getChunksUsage({
+            uploadId: upload._id,
+        });
+        await deleteFolder(
+            StorageType.Input,
+            getInputUploadFolder(upload._id.toHexString()),
+        );
+        await chunksColl.deleteMany({
+            uploadId: upload._id,
+        });
+
+        ++report.uploads;
+        report.chunks += usage.count;
+        report.bytes += usage.size;
+    }
+    await job.updateProgress(50);
+
+    const orphanedChunks = await chunksColl
+        .aggregate<{
+            _id: { uploadId: ObjectId; concurrentId: ObjectId };
+            upload: IMDBUpload[];
+        }>([
+            {
+                $match: {
+                    createdAt: { $lt: expiredAt },
+                },
+            },
+            {
+                $group: {
+                    _id: {
+                        uploadId: '$uploadId',
+                        concurrentId: '$concurrentId',
+                    },
+                },
+            },
+            {
+                $lookup: {
+                    from: 'uploads',
+                    localField: '_id.uploadId',
+                    foreignField: '_id',
+                    as: 'upload',
+                },
+            },
+            {
+                $match: {
+                    $expr: {
+                        $not: {
+                            $in: ['$_id.concurrentId', '$upload.concurrentId'],
+                        },
+                    },
+                },
+            },
+        ])
+        .toArray();
+    for (const { _id: orphan, upload } of orphanedChunks) {
+        const usage = await getChunksUsage(orphan);
+        if (upload.length === 0) {
+            await deleteFolder(
+                StorageType.Input,
+                getInputUploadFolder(orphan.uploadId.toHexString()),
+            );
+        }
+        await chunksColl.deleteMany(orphan);
+
+        report.chunks += usage.count;
+        report.bytes += usage.size;
+    }
+    await job.updateProgress(100);
+
+    logger.info(
+        `[Updates.CleanupUploads] expired ${report.uploads} uploads, reclaimed ${report.chunks} chunks (${report.bytes} bytes)`,
+    );
+
+    return report;
+};
+
 const processUpdateJob = async (job: BullMQ.Job<UpdateJobData>) => {
     const { type, data } = job.data;
-    switch (type) {
-        case UpdateServiceJobType.ProcessUploadVersion:
-            return processUploadVersion(job, data);
-        case UpdateServiceJobType.ProcessPublishVersion:
-            return processPublishVersion(job, data);
+    try {
+        switch (type) {
+            case UpdateServiceJobType.ProcessUploadVersion:
+                return await processUploadVersion(job, data);
+            case UpdateServiceJobType.ProcessPublishVersion:
+                return await processPublishVersion(job, data);
+            case UpdateServiceJobType.ProcessDeleteVersion:
+                return await processDeleteVersion(job, data);
+            case UpdateServiceJobType.ProcessActivateVersion:
+                return await processActivateVersion(job, data);
+            case UpdateServiceJobType.ProcessBuildBaselines:
+                return await processBuildBaselines(job);
+            case UpdateServiceJobType.ProcessCleanupUploads:
+                return await processCleanupUploads(job);
+        }
+    } catch (error) {
+        /* Retrying can't fix a version or upload in the wrong state */
+        if (
+            error instanceof ResponseError &&
+            error.code === status.FAILED_PRECONDITION
+        ) {
+            throw new BullMQ.UnrecoverableError(error.message);
+        }
+        throw error;
     }
 };
 
@@ -8,9 +8,21 @@ export interface IProcessPublishVersionJobData {
     versionId: string;
 }
 
+export interface IProcessDeleteVersionJobData {
+    versionId: string;
+}
+
+export interface IProcessActivateVersionJobData {
+    versionId: string;
+}
+
 export enum UpdateServiceJobType {
     ProcessUploadVersion,
     ProcessPublishVersion,
+    ProcessDeleteVersion,
+    ProcessActivateVersion,
+    ProcessBuildBaselines,
+    ProcessCleanupUploads,
 }
 
 export type UpdateJobData =
@@ -21,4 +33,20 @@ export type UpdateJobData =
     | {
           type: UpdateServiceJobType.ProcessPublishVersion;
           data: IProcessPublishVersionJobData;
+      }
+    | {
+          type: UpdateServiceJobType.ProcessDeleteVersion;
+          data: IProcessDeleteVersionJobData;
+      }
+    | {
+          type: UpdateServiceJobType.ProcessActivateVersion;
+          data: IProcessActivateVersionJobData;
+      }
+    | {
+          type: UpdateServiceJobType.ProcessBuildBaselines;
+          data: Record<string, never>;
+      }
+    | {
+          type: UpdateServiceJobType.ProcessCleanupUploads;
+          data: Record<string, never>;
       };
@@ -0,0 +1,370 @@
+import { Filter, ObjectId, WithId } from 'mongodb';
+import * as crypto from 'node:crypto';
+import { logger } from '~/logger';
+import { ReleaseChannel } from '~/shared';
+import { getLatestDeletions, resolveFilesState } from '~/utils/updates';
+import { getMongoClient } from './client';
+import {
+    getChannelFilter,
+    getOlderOrEqualVersionFilter,
+    getPublishedFilter,
+} from './filters';
+import { IMDBBaseline, IMDBBaselineEntry } from './schemas/updates/baselines';
+import { IMDBUpdateDeletion } from './schemas/updates/deletions';
+import { IMDBUpdateFile } from './schemas/updates/files';
+import { IMDBVersion, IVersion } from './schemas/updates/versions';
+
+const BaselineEntriesBatchSize = 1000;
+
+const getBaselineDigest = (versions: WithId<IMDBVersion>[]) => {
+    const hash = crypto.createHash('sha256');
+    for (const version of versions) {
+        hash.update(version._id.toHexString());
+    }
+    return hash.digest('hex');
+};
+
+/* Published versions of the channel, ordered from the oldest one */
+export const getChannelVersions = async (
+    channel: ReleaseChannel,
+    until: IVersion | null = null,
+) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new Error('getMongoClient failed');
+    }
+
+    const versionsColl = client
+        .db('updates')
+        .collection<IMDBVersion>('versions');
+
+    return await versionsColl
+        .find({
+            $and: [
+                getPublishedFilter(),
+                getChannelFilter(channel),
+                ...(until != null ? [getOlderOrEqualVersionFilter(until)] : []),
+            ],
+        })
+        .sort({
+            'version.major': 1,
+            'version.minor': 1,
+            'version.revision': 1,
+        })
+        .toArray();
+};
+
+const deleteBaselines = async (baselineIds: ObjectId[]) => {
+    if (baselineIds.length === 0) return;
+
+    const client = await getMongoClient();
+    if (!client) {
+        throw new Error('getMongoClient failed');
+    }
+
+    const baselinesColl = client
+        .db('updates')
+        .collection<IMDBBaseline>('baselines');
+    const entriesColl = client
+        .db('updates')
+        .collection<IMDBBaselineEntry>('baselineEntries');
+
+    await baselinesColl.deleteMany({
+        _id: { $in: baselineIds },
+    });
+    await entriesColl.deleteMany({
+        baselineId: { $in: baselineIds },
+    });
+};
+
+/*
+    Latest file per category and local path made by the versions, ordered from the oldest one,
+    with the latest deletion per local path. Files updated before their deletion are left out.
+*/
+const resolveVersionsState = async (versions: WithId<IMDBVersion>[]) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new Error('getMongoClient failed');
+    }
+
+    const filesColl = client.db('updates').collection<IMDBUpdateFile>('files');
+    const deletionsColl = client
+        .db('updates')
+        .collection<IMDBUpdateDeletion>('deletions');
+
+    const versionsMap = new Map(
+        versions.map((version) => [version._id.toHexString(), version]),
+    );
+    const versionIds = versions.map((version) => version._id);
+
+    const versionFiles = await filesColl
+        .find({
+            versionId: { $in: versionIds },
+        })
+        .map((file) => ({
+            version: versionsMap.get(file.versionId.toHexString())!,
+            file,
+        }))
+        .toArray();
+    const versionDeletions = await deletionsColl
+        .find({
+            versionId: { $in: versionIds },
+        })
+        .map((deletion) => ({
+            localPath: deletion.localPath,
+            version: versionsMap.get(deletion.versionId.toHexString())!,
+        }))
+        .toArray();
+
+    const deletions = getLatestDeletions(versionDeletions);
+    const files = resolveFilesState(versionFiles, deletions);
+
+    return { files, deletions };
+};
+
+/*
+    Snapshots the channel at its last version every client receives, versions after
+    the first one under a staged rollout aren't received by every client.
+    Returns true when the snapshot had to be rebuilt.
+*/
+export const buildBaseline = async (channel: ReleaseChannel) => {
+    try {
+        const client = await getMongoClient();
+        if (!client) {
+            throw new Error('getMongoClient failed');
+        }
+
+        const baselinesColl = client
+            .db('updates')
+            .collection<IMDBBaseline>('baselines');
+        const entriesColl = client
+            .db('updates')
+            .collection<IMDBBaselineEntry>('baselineEntries');
+
+        const versions = await getChannelVersions(channel);
+        const rolloutIndex = versions.findIndex(
+            (version) => version.rollout != null && version.rollout < 100,
+        );
+        if (rolloutIndex >= 0) {
+            versions.splice(rolloutIndex);
+        }
+
+        const previousBaselines = await baselinesColl
+            .find(
+                {
+                    channel,
+                },
+                {
+                    projection: {
+                        _id: 1,
+                        digest: 1,
+                    },
+                },
+            )
+            .toArray();
+
+        if (versions.length === 0) {
+            await deleteBaselines(previousBaselines.map((b) => b._id));
+            return previousBaselines.length > 0;
+        }
+
+        const digest = getBaselineDigest(versions);
+        if (
+            previousBaselines.length === 1 &&
+            previousBaselines[0].digest === digest
+        ) {
+            return false;
+        }
+
+        const { files, deletions } = await resolveVersionsState(versions);
+
+        const baselineId = new ObjectId();
+        const createdAt = new Date();
+        const entries: IMDBBaselineEntry[] = [
+            ...Array.from(files.values()).map(({ version, file }) => ({
+                baselineId,
+                versionId: version._id,
+                localPath: file.localPath,
+                category: file.category,
+                file,
+                createdAt,
+            })),
+            ...Array.from(deletions).map(([localPath, version]) => ({
+                baselineId,
+                versionId: version._id,
+                localPath,
+                category: null,
+                file: null,
+                createdAt,
+            })),
+        ];
+
+        /* Entries are written before the baseline so it is never read partially */
+        for (let n = 0; n < entries.length; n += BaselineEntriesBatchSize) {
+            await entriesColl.insertMany(
+                entries.slice(n, n + BaselineEntriesBatchSize),
+            );
+        }
+        await baselinesColl.insertOne({
+            _id: baselineId,
+            channel,
+            versionId: versions[versions.length - 1]._id,
+            digest,
+            createdAt,
+        });
+        await deleteBaselines(previousBaselines.map((b) => b._id));
+
+        return true;
+    } catch (error) {
+        logger.error(
+            `[ERROR] MongoDB.Baselines.buildBaseline failed : ${error}`,
+        );
+        throw error;
+    }
+};
+
+/* Drops every baseline, used when the content of a version changes without changing the versions included */
+export const invalidateBaselines = async () => {
+    try {
+        const client = await getMongoClient();
+        if (!client) {
+            throw new Error('getMongoClient failed');
+        }
+
+        const baselinesColl = client
+            .db('updates')
+            .collection<IMDBBaseline>('baselines');
+        const baselines = await baselinesColl
+            .find({}, { projection: { _id: 1 } })
+            .toArray();
+
+        await deleteBaselines(baselines.map((b) => b._id));
+    } catch (error) {
+        logger.error(
+            `[ERROR] MongoDB.Baselines.invalidateBaselines failed : ${error}`,
+        );
+        throw error;
+    }
+};
+
+/*
+    Baseline of the channel usable to resolve the given versions, ordered from the oldest one,
+    it is only returned if it is part of them and still matches the published versions.
+    Versions up to the returned index are resolved from the baseline entries.
+*/
+export const getVersionsBaseline = async (
+    channel: ReleaseChannel,
+    versions: WithId<IMDBVersion>[],
+) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new Error('getMongoClient failed');
+    }
+
+    const baselinesColl = client
+        .db('updates')
+        .collection<IMDBBaseline>('baselines');
+
+    const baseline = await baselinesColl.findOne(
+        {
+            channel,
+        },
+        {
+            sort: {
+                createdAt: -1,
+            },
+        },
+    );
+    if (baseline == null) return null;
+
+    const index = versions.findIndex((version) =>
+        version._id.equals(baseline.versionId),
+    );
+    if (index < 0) return null;
+
+    const includedVersions = await getChannelVersions(
+        channel,
+        versions[index].version,
+    );
+    if (getBaselineDigest(includedVersions) !== baseline.digest) return null;
+
+    /* The versions resolved from the baseline must be the last ones it includes */
+    const lastVersions = includedVersions.slice(-(index + 1));
+    if (
+        lastVersions.length !== index + 1 ||
+        lastVersions.some((version, n) => !version._id.equals(versions[n]._id))
+    ) {
+        return null;
+    }
+
+    return { baseline, index };
+};
+
+/* Files and deletions of the baseline made by the given versions */
+export const getBaselineChanges = async (
+    baselineId: ObjectId,
+    versionIds: ObjectId[],
+    categories: number[],
+) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new Error('getMongoClient failed');
+    }
+
+    const entriesColl = client
+        .db('updates')
+        .collection<IMDBBaselineEntry>('baselineEntries');
+    const categoriesFilter: Filter<IMDBBaselineEntry> = {
+        category: { $in: categories },
+    };
+
+    const files = await entriesColl
+        .find({
+            $and: [
+                {
+                    baselineId,
+                    versionId: { $in: versionIds },
+                    file: { $ne: null },
+                },
+                categoriesFilter,
+            ],
+        })
+        .toArray();
+    const deletions = await entriesColl
+        .find({
+            baselineId,
+            versionId: { $in: versionIds },
+            file: null,
+        })
+        .toArray();
+
+    /* Paths updated again after their deletion in one of the client categories are kept */
+    const keptPaths =
+        deletions.length > 0
+            ? await entriesColl.distinct('localPath', {
+                  $and: [
+                      {
+                          baselineId,
+                          localPath: {
+                              $in: deletions.map((d) => d.localPath),
+                          },
+                          file: { $ne: null },
+                      },
+                      categoriesFilter,
+                  ],
+              })
+            : [];
+
+    return {
+        files: files.map((entry) => entry.file!),
+        deletions: deletions
+            .map((entry) => entry.localPath)
+            .filter((localPath) => !keptPaths.includes(localPath)),
+    };
+};
+
+/* Files a client has after receiving the versions, ordered from the oldest one */
+export const getVersionsFiles = async (versions: WithId<IMDBVersion>[]) => {
+    const { files } = await resolveVersionsState(versions);
+    return Array.from(files.values()).map(({ file }) => file);
+};
@@ -0,0 +1,6 @@
+import { MongoServerError } from 'mongodb';
+
+export const DuplicateKeyErrorCode = 11000;
+
+export const isDuplicateKeyError = (error: unknown) =>
+    error instanceof MongoServerError && error.code === DuplicateKeyErrorCode;
@@ -0,0 +1,87 @@
+import { Filter } from 'mongodb';
+import { VersionState } from '~/proto/nextmu/v1/VersionState';
+import { ReleaseChannel, getVisibleChannels } from '~/shared';
+import { IMDBVersion, IVersion } from './schemas/updates/versions';
+
+export const getNewerVersionFilter = (
+    version: IVersion,
+): Filter<IMDBVersion> => ({
+    $or: [
+        {
+            'version.major': { $gt: version.major },
+        },
+        {
+            'version.major': { $eq: version.major },
+            'version.minor': { $gt: version.minor },
+        },
+        {
+            'version.major': { $eq: version.major },
+            'version.minor': { $eq: version.minor },
+            'version.revision': { $gt: version.revision },
+        },
+    ],
+});
+
+export const getNewerOrEqualVersionFilter = (
+    version: IVersion,
+): Filter<IMDBVersion> => ({
+    $or: [
+        {
+            'version.major': { $gt: version.major },
+        },
+        {
+            'version.major': { $eq: version.major },
+            'version.minor': { $gt: version.minor },
+        },
+        {
+            'version.major': { $eq: version.major },
+            'version.minor': { $eq: version.minor },
+            'version.revision': { $gte: version.revision },
+        },
+    ],
+});
+
+export const getOlderOrEqualVersionFilter = (
+    version: IVersion,
+): Filter<IMDBVersion> => ({
+    $nor: getNewerVersionFilter(version).$or!,
+});
+
+export const getOlderVersionFilter = (
+    version: IVersion,
+): Filter<IMDBVersion> => ({
+    $nor: getNewerOrEqualVersionFilter(version).$or!,
+});
+
+/* Revisions of the same major and minor version, a hotfix line */
+export const getVersionLineFilter = (
+    version: IVersion,
+): Filter<IMDBVersion> => ({
+    'version.major': { $eq: version.major },
+    'version.minor': { $eq: version.minor },
+});
+
+export const getPublishedFilter = (): Filter<IMDBVersion> => ({
+    $or: [
+        {
+            state: { $eq: VersionState.READY },
+        },
+        {
+            state: { $eq: VersionState.SCHEDULED },
+            activateAt: { $lte: new Date() },
+        },
+    ],
+});
+
+export const getChannelFilter = (
+    channel: ReleaseChannel,
+): Filter<IMDBVersion> => ({
+    $or: [
+        {
+            channel: { $in: getVisibleChannels(channel) },
+        },
+        {
+            channel: { $exists: false },
+        },
+    ],
+});
@@ -0,0 +1,81 @@
+import { status } from '@grpc/grpc-js';
+import { WithId } from 'mongodb';
+import { ReleaseChannel } from '~/shared';
+import { ResponseError } from '~/shared/error';
+import { compareBuildFiles, isHistoryShared } from '~/utils/updates';
+import { getChannelVersions, getVersionsFiles } from './baselines';
+import { getMongoClient } from './client';
+import {
+    getChannelFilter,
+    getOlderVersionFilter,
+    getPublishedFilter,
+} from './filters';
+import { IMDBVersion } from './schemas/updates/versions';
+
+export interface IManifestFile {
+    localPath: string;
+    crc32: string;
+    fileSize: number;
+}
+
+/* Latest published version of the channel older than the version, delta uploads are compared against it */
+export const getManifestBaseVersion = async (version: WithId<IMDBVersion>) => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new Error('getMongoClient failed');
+    }
+
+    const versionsColl = client
+        .db('updates')
+        .collection<IMDBVersion>('versions');
+
+    return await versionsColl.findOne(
+        {
+            $and: [
+                getPublishedFilter(),
+                getChannelFilter(version.channel ?? ReleaseChannel.Stable),
+                getOlderVersionFilter(version.version),
+            ],
+        },
+        {
+            sort: {
+                'version.major': -1,
+                'version.minor': -1,
+                'version.revision': -1,
+            },
+        },
+    );
+};
+
+/*
+    Compares the files of the new build with the ones clients have at the base version,
+    unchanged files are left out of the upload and keep being resolved from older versions.
+*/
+export const getManifestChanges = async (
+    version: WithId<IMDBVersion>,
+    files: IManifestFile[],
+) => {
+    const baseVersion = await getManifestBaseVersion(version);
+    if (baseVersion == null) {
+        return {
+            baseVersion,
+            ...compareBuildFiles([], files),
+        };
+    }
+
+    const versions = await getChannelVersions(
+        version.channel ?? ReleaseChannel.Stable,
+        baseVersion.version,
+    );
+    if (!isHistoryShared(versions)) {
+        throw new ResponseError(
+            status.FAILED_PRECONDITION,
+            'invalid upload manifest, clients of the base version may have different files, upload the full build instead.',
+        );
+    }
+
+    return {
+        baseVersion,
+        ...compareBuildFiles(await getVersionsFiles(versions), files),
+    };
+};
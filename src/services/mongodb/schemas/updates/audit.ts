@@ -0,0 +1,19 @@
+import { ObjectId, WithId } from 'mongodb';
+import { IMDBVersion } from './versions';
+
+export interface IAuditActor {
+    subject: string;
+    username?: string;
+}
+
+export interface IMDBAuditEvent {
+    versionId: ObjectId | null;
+    action: string;
+    actor: IAuditActor;
+
+    details: Record<string, unknown>; // request parameters of the action
+    before: WithId<IMDBVersion> | null;
+    after: WithId<IMDBVersion> | null;
+
+    createdAt: Date;
+}
@@ -0,0 +1,22 @@
+import { ObjectId } from 'mongodb';
+import type { ReleaseChannel } from '~/shared';
+import { IMDBUpdateFile } from './files';
+
+export interface IMDBBaseline {
+    channel: ReleaseChannel;
+    versionId: ObjectId; // last version included in the snapshot
+    digest: string; // hash of every version included, a mismatch means it is outdated
+
+    createdAt: Date;
+}
+
+/* Latest state of a local path at the baseline version, per category for files */
+export interface IMDBBaselineEntry {
+    baselineId: ObjectId;
+    versionId: ObjectId; // version which last updated or deleted it
+    localPath: string;
+    category: number | null; // null for deletions
+    file: IMDBUpdateFile | null; // null when it is deleted
+
+    createdAt: Date;
+}
@@ -1,9 +1,16 @@
 import { ObjectId } from 'mongodb';
+import { UploadChecksumAlgorithm } from '~/shared';
+
+export interface IUploadChunkChecksum {
+    algorithm: UploadChecksumAlgorithm;
+    value: string;
+}
 
 export interface IMDBUploadChunk {
     uploadId: ObjectId;
     concurrentId: ObjectId;
     offset: number;
     size: number;
+    checksum: IUploadChunkChecksum;
     createdAt: Date;
 }
@@ -0,0 +1,8 @@
+import { ObjectId } from 'mongodb';
+
+export interface IMDBUpdateDeletion {
+    versionId: ObjectId;
+    localPath: string;
+
+    createdAt: Date;
+}
@@ -0,0 +1,13 @@
+import { ObjectId } from 'mongodb';
+
+/* Files listed by the uploader before a delta upload, the upload only holds the needed ones */
+export interface IMDBUploadManifest {
+    versionId: ObjectId;
+    baseVersionId: ObjectId | null; // published version the manifest was compared against
+    filesCount: number;
+
+    neededPaths: string[]; // new or changed, the upload must contain them
+    deletedPaths: string[]; // present in the base version but not in the manifest
+
+    createdAt: Date;
+}
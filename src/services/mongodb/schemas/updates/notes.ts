@@ -0,0 +1,10 @@
+import { ObjectId } from 'mongodb';
+
+export interface IMDBReleaseNote {
+    versionId: ObjectId;
+    locale: string;
+    content: string; // markdown
+
+    createdAt: Date;
+    updatedAt: Date;
+}
@@ -1,5 +1,6 @@
 import { ObjectId } from 'mongodb';
 import { UploadState__Output as UploadState } from '~/proto/nextmu/v1/UploadState';
+import { UploadArchiveType } from '~/shared';
 
 export interface IMDBUpload {
     versionId: ObjectId;
@@ -7,7 +8,7 @@ export interface IMDBUpload {
 
     state: UploadState;
     hash: string;
-    type: string;
+    type: UploadArchiveType;
     fileSize: number;
     chunkSize: number;
     chunksCount: number;
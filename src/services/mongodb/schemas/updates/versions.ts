@@ -1,4 +1,5 @@
 import { VersionState } from '~/proto/nextmu/v1/VersionState';
+import type { ReleaseChannel } from '~/shared';
 
 export interface IVersion {
     major: number;
@@ -9,8 +10,21 @@ export interface IMDBVersion {
     version: IVersion;
     description: string;
     state: VersionState;
+    channel?: ReleaseChannel; // versions without channel are considered stable
     file?: string;
 
+    /*
+        undefined : published as soon as it is processed
+        date : published at this date
+    */
+    activateAt?: Date;
+
+    rollout?: number; // percentage of clients receiving it, 100 if undefined
+
+    mandatory?: boolean; // clients can't play until it is applied
+    minimumVersion?: IVersion; // clients older than it can't play until updated
+
     createdAt: Date;
     updatedAt: Date;
+    revokedAt?: Date;
 }
@@ -1,12 +1,223 @@
-import { ClientSession, ObjectId } from 'mongodb';
+import { status } from '@grpc/grpc-js';
+import { ClientSession, Collection, ObjectId } from 'mongodb';
 import { logger } from '~/logger';
 import { UploadState__Output as UploadState } from '~/proto/nextmu/v1/UploadState';
 import { VersionState } from '~/proto/nextmu/v1/VersionState';
+import { ResponseError } from '~/shared/error';
+import {
+    assertUploadTransition,
+    assertVersionTransition,
+    getUploadStateName,
+    getVersionStateName,
+} from '~/shared/states';
 import { getMongoClient } from './client';
+import { IMDBAuditEvent } from './schemas/updates/audit';
+import { IMDBBaseline, IMDBBaselineEntry } from './schemas/updates/baselines';
 import { IMDBUploadChunk } from './schemas/updates/chunks';
+import { IMDBUpdateDeletion } from './schemas/updates/deletions';
+import { IMDBUploadManifest } from './schemas/updates/manifests';
+import { IMDBReleaseNote } from './schemas/updates/notes';
 import { IMDBUpload } from './schemas/updates/uploads';
 import { IMDBVersion } from './schemas/updates/versions';
 
+/*
+    Versions created before the unique index existed can share a number, the index
+    creation would then fail without telling which versions have to be fixed.
+*/
+const assertUniqueVersions = async (versionsColl: Collection<IMDBVersion>) => {
+    const duplicates = await versionsColl
+        .aggregate<{
+            _id: { major: number; minor: number; revision: number };
+            ids: ObjectId[];
+        }>([
+            {
+                $group: {
+                    _id: {
+                        major: '$version.major',
+                        minor: '$version.minor',
+                        revision: '$version.revision',
+                    },
+                    ids: { $push: '$_id' },
+                    count: { $sum: 1 },
+                },
+            },
+            {
+                $match: {
+                    count: { $gt: 1 },
+                },
+            },
+        ])
+        .toArray();
+    if (duplicates.length === 0) return;
+
+    const list = duplicates
+        .map(
+            ({ _id: { major, minor, revision }, ids }) =>
+                `${major}.${minor}.${revision} (${ids.map((id) => id.toHexString()).join(', ')})`,
+        )
+        .join(', ');
+    throw new Error(
+        `duplicated version numbers, delete or renumber these versions before restarting : ${list}`,
+    );
+};
+
+/* Transactions and the change streams of WatchVersion are rejected by a standalone server */
+export const assertReplicaSet = async () => {
+    const client = await getMongoClient();
+    if (!client) {
+        throw new Error('getMongoClient failed');
+    }
+
+    const hello = await client.db('admin').command({ hello: 1 });
+    if (hello.setName == null && hello.msg !== 'isdbgrid') {
+        throw new Error(
+            `mongodb must run as a replica set or a sharded cluster, a single node replica set is enough for development`,
+        );
+    }
+};
+
+export const createIndexes = async () => {
+    try {
+        const client = await getMongoClient();
+        if (!client) {
+            throw new Error('getMongoClient failed');
+        }
+
+        const versionsColl = client
+            .db('updates')
+            .collection<IMDBVersion>('versions');
+
+        await assertUniqueVersions(versionsColl);
+        await versionsColl.createIndex(
+            {
+                'version.major': 1,
+                'version.minor': 1,
+                'version.revision': 1,
+            },
+            {
+                name: 'version_unique',
+                unique: true,
+            },
+        );
+        await versionsColl.createIndex(
+            {
+                createdAt: -1,
+                _id: -1,
+            },
+            {
+                name: 'version_created',
+            },
+        );
+
+        const notesColl = client
+            .db('updates')
+            .collection<IMDBReleaseNote>('notes');
+
+        await notesColl.createIndex(
+            {
+                versionId: 1,
+                locale: 1,
+            },
+            {
+                name: 'note_unique',
+                unique: true,
+            },
+        );
+
+        const deletionsColl = client
+            .db('updates')
+            .collection<IMDBUpdateDeletion>('deletions');
+
+        await deletionsColl.createIndex(
+            {
+                versionId: 1,
+                localPath: 1,
+            },
+            {
+                name: 'deletion_unique',
+                unique: true,
+            },
+        );
+
+        const auditColl = client
+            .db('updates')
+            .collection<IMDBAuditEvent>('audit');
+
+        await auditColl.createIndex(
+            {
+                versionId: 1,
+                createdAt: -1,
+            },
+            {
+                name: 'audit_version',
+            },
+        );
+        await auditColl.createIndex(
+            {
+                'actor.subject': 1,
+                createdAt: -1,
+            },
+            {
+                name: 'audit_actor',
+            },
+        );
+
+        const baselinesColl = client
+            .db('updates')
+            .collection<IMDBBaseline>('baselines');
+
+        await baselinesColl.createIndex(
+            {
+                channel: 1,
+                createdAt: -1,
+            },
+            {
+                name: 'baseline_channel',
+            },
+        );
+
+        const baselineEntriesColl = client
+            .db('updates')
+            .collection<IMDBBaselineEntry>('baselineEntries');
+
+        await baselineEntriesColl.createIndex(
+            {
+                baselineId: 1,
+                versionId: 1,
+            },
+            {
+                name: 'baseline_entry_version',
+            },
+        );
+        await baselineEntriesColl.createIndex(
+            {
+                baselineId: 1,
+                localPath: 1,
+            },
+            {
+                name: 'baseline_entry_path',
+            },
+        );
+
+        const manifestsColl = client
+            .db('updates')
+            .collection<IMDBUploadManifest>('manifests');
+
+        await manifestsColl.createIndex(
+            {
+                versionId: 1,
+            },
+            {
+                name: 'manifest_version',
+                unique: true,
+            },
+        );
+    } catch (error) {
+        logger.error(`[ERROR] MongoDB.Update.createIndexes failed : ${error}`);
+        throw error;
+    }
+};
+
 export const setVersionState = async (
     versionId: ObjectId,
     state: VersionState,
@@ -23,7 +234,11 @@ export const setVersionState = async (
             .db('updates')
             .collection<IMDBVersion>('versions');
 
-        await versionsColl.updateOne(
+        if (checkState != null) {
+            assertVersionTransition(checkState, state);
+        }
+
+        const result = await versionsColl.updateOne(
             {
                 _id: versionId,
                 ...(checkState != null
@@ -41,6 +256,14 @@ export const setVersionState = async (
                 session,
             },
         );
+        if (result.matchedCount === 0) {
+            throw new ResponseError(
+                status.FAILED_PRECONDITION,
+                checkState != null
+                    ? `invalid version state, it isn't ${getVersionStateName(checkState)} anymore.`
+                    : 'invalid version, not found in database.',
+            );
+        }
     } catch (error) {
         logger.error(
             `[ERROR] MongoDB.Update.setVersionState failed : ${error}`,
@@ -65,7 +288,11 @@ export const setUploadState = async (
             .db('updates')
             .collection<IMDBUpload>('uploads');
 
-        await uploadsColl.updateOne(
+        if (checkState != null) {
+            assertUploadTransition(checkState, state);
+        }
+
+        const result = await uploadsColl.updateOne(
             {
                 _id: uploadId,
                 concurrentId,
@@ -81,6 +308,14 @@ export const setUploadState = async (
                 },
             },
         );
+        if (result.matchedCount === 0) {
+            throw new ResponseError(
+                status.FAILED_PRECONDITION,
+                checkState != null
+                    ? `invalid upload state, it isn't ${getUploadStateName(checkState)} anymore.`
+                    : 'invalid upload, not found in database.',
+            );
+        }
     } catch (error) {
         logger.error(`[ERROR] MongoDB.Update.setUploadState failed : ${error}`);
         throw error;
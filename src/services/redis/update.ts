@@ -0,0 +1,32 @@
+import { logger } from '~/logger';
+import type { ReleaseChannel } from '~/shared';
+import type { OperatingSystems, TextureFormat } from '~/types/api/v1';
+import { getRedisClient } from '.';
+
+export const formatUpdateKey = (
+    channel: ReleaseChannel,
+    source: string,
+    target: string,
+    os: OperatingSystems,
+    texture: TextureFormat,
+) => {
+    return `update-${channel}-${source}-${target}-${os}-${texture}`;
+};
+
+export const clearUpdateCache = async () => {
+    try {
+        const redis = await getRedisClient();
+        const stream = redis.scanStream({
+            match: 'update-*',
+            count: 100,
+        });
+
+        for await (const keys of stream) {
+            if (keys.length === 0) continue;
+            await redis.unlink(...keys);
+        }
+    } catch (error) {
+        logger.error(`[ERROR] Redis.Update.clearUpdateCache failed : ${error}`);
+        throw error;
+    }
+};
@@ -1,8 +1,10 @@
 import * as AWS from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
 import type { AwsCredentialIdentity } from '@smithy/types';
 import { createReadStream } from 'node:fs';
 import { mkdir, stat, writeFile } from 'node:fs/promises';
 import path from 'node:path';
+import { PassThrough, Readable } from 'node:stream';
 import { logger } from '~/logger';
 import { enumerateFiles, fileStats } from '~/utils';
 import { StorageProvider, StorageType, StorageTypes } from '../enums';
@@ -11,6 +13,7 @@ import {
     InvalidConfigError,
     InvalidFileError,
 } from '../errors';
+import { concatStreams } from '../streams';
 import { FileInfoExt, IStorageOptions } from '../types';
 
 const getAwsCredentials = (
@@ -130,6 +133,25 @@ export const deleteFolder = async (storageType: StorageType, dir: string) => {
     }
 };
 
+export const deleteFile = async (storageType: StorageType, file: string) => {
+    try {
+        const storageConfig = getStorageConfig(storageType);
+        if (storageConfig == null) throw new InvalidConfigError(storageType);
+
+        file = path.join(storageConfig.subPath, file).replaceAll('\\', '/');
+
+        await storageConfig.client.send(
+            new AWS.DeleteObjectCommand({
+                Bucket: storageConfig.bucket,
+                Key: file,
+            }),
+        );
+    } catch (e) {
+        logger.error(`Services.Storage.AWS.deleteFile failed : ${e}`);
+        throw e;
+    }
+};
+
 export const downloadFile = async (
     storageType: StorageType,
     source: string,
@@ -379,3 +401,71 @@ export const uploadFolder = async (
         throw e;
     }
 };
+
+/*
+    Streams the sources into a multipart upload of the destination object, returns its sha256.
+    Upload part copy can't be used, chunks are smaller than the 5MB minimum part size.
+*/
+export const concatFiles = async (
+    storageType: StorageType,
+    sources: string[],
+    dest: string,
+    options?: IStorageOptions,
+) => {
+    const storageConfig = getStorageConfig(storageType);
+    if (storageConfig == null) throw new InvalidConfigError(storageType);
+
+    dest = path.join(storageConfig.subPath, dest).replaceAll('\\', '/');
+
+    const writeStream = new PassThrough();
+    const upload = new Upload({
+        client: storageConfig.client,
+        params: {
+            Bucket: storageConfig.bucket,
+            Key: dest,
+            Body: writeStream,
+            ContentType: 'application/octet-stream',
+        },
+    });
+
+    try {
+        /* A failed part stops the sources from being written to the stream */
+        const uploadDone = upload.done().catch((e) => {
+            writeStream.destroy(e);
+            throw e;
+        });
+        const [, hash] = await Promise.all([
+            uploadDone,
+            concatStreams(
+                sources,
+                async (source) => {
+                    source = path
+                        .join(storageConfig.subPath, source)
+                        .replaceAll('\\', '/');
+                    try {
+                        const result = await storageConfig.client.send(
+                            new AWS.GetObjectCommand({
+                                Bucket: storageConfig.bucket,
+                                Key: source,
+                            }),
+                        );
+                        if (result.Body == null)
+                            throw new InvalidFileError(source);
+                        return result.Body as Readable;
+                    } catch (e) {
+                        if (e instanceof AWS.NoSuchKey)
+                            throw new InvalidFileError(source);
+                        throw e;
+                    }
+                },
+                writeStream,
+                options,
+            ),
+        ]);
+        return hash;
+    } catch (e) {
+        await upload.abort().catch(() => {});
+        logger.error(`Services.Storage.AWS.concatFiles failed : ${e}`);
+        throw e;
+    }
+};
@@ -12,6 +12,7 @@ import {
     InvalidConfigError,
     InvalidFileError,
 } from '../errors';
+import { concatStreams } from '../streams';
 import { FileInfoExt, IStorageOptions } from '../types';
 
 interface IStorageConfig {
@@ -93,6 +94,24 @@ export const deleteFolder = async (storageType: StorageType, dir: string) => {
     }
 };
 
+export const deleteFile = async (storageType: StorageType, file: string) => {
+    try {
+        const storageConfig = getStorageConfig(storageType);
+        if (storageConfig == null) throw new InvalidConfigError(storageType);
+
+        file = path.join(storageConfig.subPath, file).replaceAll('\\', '/');
+
+        const bucket = storageConfig.client.bucket(storageConfig.bucket);
+        if ((await bucket.exists())[0] == false)
+            throw new InvalidBucketError(storageConfig.bucket);
+
+        await bucket.file(file).delete({ ignoreNotFound: true });
+    } catch (e) {
+        logger.error(`Services.Storage.GCP.deleteFile failed : ${e}`);
+        throw e;
+    }
+};
+
 export const downloadFile = async (
     storageType: StorageType,
     source: string,
@@ -435,3 +454,51 @@ export const uploadFolder = async (
         throw e;
     }
 };
+
+/*
+    Streams the sources into the destination object, returns its sha256.
+    Compose would avoid the transfer but the data has to be read to be hashed anyway.
+*/
+export const concatFiles = async (
+    storageType: StorageType,
+    sources: string[],
+    dest: string,
+    options?: IStorageOptions,
+) => {
+    const storageConfig = getStorageConfig(storageType);
+    if (storageConfig == null) throw new InvalidConfigError(storageType);
+
+    const bucket = storageConfig.client.bucket(storageConfig.bucket);
+    if ((await bucket.exists())[0] == false)
+        throw new InvalidBucketError(storageConfig.bucket);
+
+    const file = bucket.file(
+        path.join(storageConfig.subPath, dest).replaceAll('\\', '/'),
+    );
+    const writeStream = file.createWriteStream({
+        contentType: 'application/octet-stream',
+    });
+
+    try {
+        return await concatStreams(
+            sources,
+            async (source) => {
+                const sourceFile = bucket.file(
+                    path
+                        .join(storageConfig.subPath, source)
+                        .replaceAll('\\', '/'),
+                );
+                if ((await sourceFile.exists())[0] == false)
+                    throw new InvalidFileError(sourceFile.name);
+                return sourceFile.createReadStream();
+            },
+            writeStream,
+            options,
+        );
+    } catch (e) {
+        writeStream.destroy();
+        await file.delete().catch(() => {});
+        logger.error(`Services.Storage.GCP.concatFiles failed : ${e}`);
+        throw e;
+    }
+};
@@ -19,6 +19,21 @@ export const deleteFolder = async (storageType: StorageType, dir: string) => {
     }
 };
 
+export const deleteFile = async (storageType: StorageType, file: string) => {
+    switch (process.env[`${storageType}_STORAGE_PROVIDER`]) {
+        case StorageProvider.Local:
+            return await LocalStorage.deleteFile(storageType, file);
+        case StorageProvider.AWS:
+            return await AWSStorage.deleteFile(storageType, file);
+        case StorageProvider.GCP:
+            return await GCPStorage.deleteFile(storageType, file);
+        default:
+            throw new Error(
+                `${storageType}_STORAGE_PROVIDER has an invalid value, please configure it.`,
+            );
+    }
+};
+
 export const downloadFile = async (
     storageType: StorageType,
     source: string,
@@ -193,3 +208,38 @@ export const uploadFolder = async (
             );
     }
 };
+
+export const concatFiles = async (
+    storageType: StorageType,
+    sources: string[],
+    dest: string,
+    options?: IStorageOptions,
+) => {
+    switch (process.env[`${storageType}_STORAGE_PROVIDER`]) {
+        case StorageProvider.Local:
+            return await LocalStorage.concatFiles(
+                storageType,
+                sources,
+                dest,
+                options,
+            );
+        case StorageProvider.AWS:
+            return await AWSStorage.concatFiles(
+                storageType,
+                sources,
+                dest,
+                options,
+            );
+        case StorageProvider.GCP:
+            return await GCPStorage.concatFiles(
+                storageType,
+                sources,
+                dest,
+                options,
+            );
+        default:
+            throw new Error(
+                `${storageType}_STORAGE_PROVIDER has an invalid value, please configure it.`,
+            );
+    }
+};
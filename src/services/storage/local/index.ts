@@ -10,6 +10,7 @@ import {
     InvalidConfigError,
     InvalidFileError,
 } from '../errors';
+import { concatStreams } from '../streams';
 import { FileInfoExt, IStorageOptions } from '../types';
 
 interface IStorageConfig {
@@ -60,13 +61,26 @@ export const deleteFolder = async (storageType: StorageType, dir: string) => {
         if (storageConfig == null) throw new InvalidConfigError(storageType);
 
         const directory = path.join(storageConfig.path, dir);
-        await rm(directory, { recursive: true });
+        await rm(directory, { recursive: true, force: true });
     } catch (e) {
         logger.error(`Services.Storage.Local.deleteFolder failed : ${e}`);
         throw e;
     }
 };
 
+export const deleteFile = async (storageType: StorageType, file: string) => {
+    try {
+        const storageConfig = getStorageConfig(storageType);
+        if (storageConfig == null) throw new InvalidConfigError(storageType);
+
+        const filename = path.join(storageConfig.path, file);
+        await rm(filename, { force: true });
+    } catch (e) {
+        logger.error(`Services.Storage.Local.deleteFile failed : ${e}`);
+        throw e;
+    }
+};
+
 export const downloadFile = async (
     storageType: StorageType,
     source: string,
@@ -352,3 +366,39 @@ export const uploadFolder = async (
         await Promise.all(promises);
     }
 };
+
+/* Appends the sources to the destination file, returns its sha256 */
+export const concatFiles = async (
+    storageType: StorageType,
+    sources: string[],
+    dest: string,
+    options?: IStorageOptions,
+) => {
+    const storageConfig = getStorageConfig(storageType);
+    if (storageConfig == null) throw new InvalidConfigError(storageType);
+
+    const destPath = path.join(storageConfig.path, dest);
+    const directory = destPath.substring(0, destPath.lastIndexOf(path.sep) + 1);
+    await mkdir(directory, { recursive: true });
+
+    const writeStream = createWriteStream(destPath, 'binary');
+    try {
+        return await concatStreams(
+            sources,
+            async (source) => {
+                const sourcePath = path.join(storageConfig.path, source);
+                const sourceStats = await fileStats(sourcePath);
+                if (sourceStats == null || sourceStats.isFile() === false)
+                    throw new InvalidFileError(sourcePath);
+                return createReadStream(sourcePath);
+            },
+            writeStream,
+            options,
+        );
+    } catch (e) {
+        writeStream.destroy();
+        await rm(destPath, { force: true });
+        logger.error(`Services.Storage.Local.concatFiles failed : ${e}`);
+        throw e;
+    }
+};
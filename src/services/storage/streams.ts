@@ -0,0 +1,30 @@
+import * as crypto from 'node:crypto';
+import { Readable, Writable } from 'node:stream';
+import { finished, pipeline } from 'node:stream/promises';
+import { IStorageOptions } from './types';
+
+/*
+    Writes the sources one after another to the destination stream, the data is
+    hashed on the way so the assembled file never has to be read again.
+    Returns the sha256 of the written data.
+*/
+export const concatStreams = async (
+    sources: string[],
+    openSource: (source: string) => Promise<Readable>,
+    writeStream: Writable,
+    options?: IStorageOptions,
+) => {
+    const hash = crypto.createHash('sha256');
+
+    for (let n = 0; n < sources.length; ++n) {
+        const readStream = await openSource(sources[n]);
+        readStream.on('data', (chunk: Buffer) => hash.update(chunk));
+        await pipeline(readStream, writeStream, { end: false });
+        options?.onProgress((n + 1) / sources.length);
+    }
+
+    writeStream.end();
+    await finished(writeStream);
+
+    return hash.digest('hex');
+};
@@ -25,6 +25,23 @@ export class ResponseOkWithBody extends Error {
     }
 }
 
+/* Services shared by the REST and gRPC APIs can throw either status kind */
+const gRpcToHttpStatus: Partial<Record<status, StatusCodes>> = {
+    [status.CANCELLED]: StatusCodes.BAD_REQUEST,
+    [status.INVALID_ARGUMENT]: StatusCodes.BAD_REQUEST,
+    [status.DEADLINE_EXCEEDED]: StatusCodes.GATEWAY_TIMEOUT,
+    [status.NOT_FOUND]: StatusCodes.NOT_FOUND,
+    [status.ALREADY_EXISTS]: StatusCodes.CONFLICT,
+    [status.PERMISSION_DENIED]: StatusCodes.FORBIDDEN,
+    [status.RESOURCE_EXHAUSTED]: StatusCodes.TOO_MANY_REQUESTS,
+    [status.FAILED_PRECONDITION]: StatusCodes.PRECONDITION_FAILED,
+    [status.ABORTED]: StatusCodes.CONFLICT,
+    [status.OUT_OF_RANGE]: StatusCodes.BAD_REQUEST,
+    [status.UNIMPLEMENTED]: StatusCodes.NOT_IMPLEMENTED,
+    [status.UNAVAILABLE]: StatusCodes.SERVICE_UNAVAILABLE,
+    [status.UNAUTHENTICATED]: StatusCodes.UNAUTHORIZED,
+};
+
 export class ResponseError extends Error {
     constructor(
         private _code: StatusCodes | status,
@@ -49,6 +66,14 @@ export class ResponseError extends Error {
         };
     }
 
+    get http(): StatusCodes {
+        if (this._code >= 100) return this._code as StatusCodes;
+        return (
+            gRpcToHttpStatus[this._code as status] ??
+            StatusCodes.INTERNAL_SERVER_ERROR
+        );
+    }
+
     get grpc(): Partial<ServerErrorResponse> {
         return {
             code: this._code as status,
@@ -101,7 +126,7 @@ export const handleError = (
 
     if (res.headersSent) return;
     if (error instanceof ResponseError) {
-        return res.status(error.code).json(error.json);
+        return res.status(error.http).json(error.json);
     } else {
         return res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({});
     }
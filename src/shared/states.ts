@@ -0,0 +1,60 @@
+import { UploadState } from '~/proto/nextmu/v1/UploadState';
+import { VersionState } from '~/proto/nextmu/v1/VersionState';
+import {
+    assertStateIn,
+    assertStateTransition,
+    UploadStateName,
+    UploadStateTransitions,
+    VersionStateName,
+    VersionStateTransitions,
+} from './transitions';
+
+const getStateName = (states: object, state: unknown) =>
+    Object.entries(states).find(([, value]) => value === state)?.[0] ??
+    String(state);
+
+export const getVersionStateName = (state: VersionState) =>
+    getStateName(VersionState, state) as VersionStateName;
+
+export const getUploadStateName = (state: UploadState) =>
+    getStateName(UploadState, state) as UploadStateName;
+
+export const assertVersionTransition = (from: VersionState, to: VersionState) =>
+    assertStateTransition(
+        'version',
+        VersionStateTransitions,
+        getVersionStateName(from),
+        getVersionStateName(to),
+    );
+
+export const assertVersionState = (
+    state: VersionState,
+    expected: VersionState[],
+    action: string,
+) =>
+    assertStateIn(
+        'version',
+        getVersionStateName(state),
+        expected.map(getVersionStateName),
+        action,
+    );
+
+export const assertUploadTransition = (from: UploadState, to: UploadState) =>
+    assertStateTransition(
+        'upload',
+        UploadStateTransitions,
+        getUploadStateName(from),
+        getUploadStateName(to),
+    );
+
+export const assertUploadState = (
+    state: UploadState,
+    expected: UploadState[],
+    action: string,
+) =>
+    assertStateIn(
+        'upload',
+        getUploadStateName(state),
+        expected.map(getUploadStateName),
+        action,
+    );
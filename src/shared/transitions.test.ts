@@ -0,0 +1,125 @@
+import { status } from '@grpc/grpc-js';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ResponseError } from './error';
+import {
+    assertStateIn,
+    assertStateTransition,
+    UploadStateName,
+    UploadStateTransitions,
+    VersionStateName,
+    VersionStateTransitions,
+} from './transitions';
+
+const isRejected = (message: string) => (error: unknown) =>
+    error instanceof ResponseError &&
+    error.code === status.FAILED_PRECONDITION &&
+    error.message === message;
+
+const assertVersionTransition = (
+    from: VersionStateName,
+    to: VersionStateName,
+) => assertStateTransition('version', VersionStateTransitions, from, to);
+
+const assertUploadTransition = (from: UploadStateName, to: UploadStateName) =>
+    assertStateTransition('upload', UploadStateTransitions, from, to);
+
+describe('version states', () => {
+    it('follows the publishing lifecycle', () => {
+        const lifecycle: VersionStateName[] = [
+            'PENDING',
+            'PROCESSING',
+            'SCHEDULED',
+            'READY',
+            'REVOKED',
+            'DELETING',
+        ];
+        for (let n = 1; n < lifecycle.length; ++n) {
+            assert.doesNotThrow(() =>
+                assertVersionTransition(lifecycle[n - 1], lifecycle[n]),
+            );
+        }
+    });
+
+    it('rejects the transitions outside of the lifecycle', () => {
+        assert.throws(
+            () => assertVersionTransition('PENDING', 'READY'),
+            isRejected(
+                `invalid version state, it can't change from PENDING to READY.`,
+            ),
+        );
+        assert.throws(
+            () => assertVersionTransition('REVOKED', 'READY'),
+            isRejected(
+                `invalid version state, it can't change from REVOKED to READY.`,
+            ),
+        );
+    });
+
+    it('never leaves DELETING', () => {
+        for (const state of Object.keys(
+            VersionStateTransitions,
+        ) as VersionStateName[]) {
+            assert.throws(() => assertVersionTransition('DELETING', state));
+        }
+    });
+
+    it('names the expected states when asserting one', () => {
+        assert.doesNotThrow(() =>
+            assertStateIn('version', 'READY', ['READY'], 'be revoked'),
+        );
+        assert.throws(
+            () =>
+                assertStateIn(
+                    'version',
+                    'PROCESSING',
+                    ['PENDING', 'READY'],
+                    'be deleted',
+                ),
+            isRejected(
+                `invalid version state, it must be PENDING or READY to be deleted but it is PROCESSING.`,
+            ),
+        );
+    });
+});
+
+describe('upload states', () => {
+    it('follows the upload lifecycle', () => {
+        const lifecycle: UploadStateName[] = [
+            'NONE',
+            'PENDING',
+            'PROCESSING',
+            'READY',
+        ];
+        for (let n = 1; n < lifecycle.length; ++n) {
+            assert.doesNotThrow(() =>
+                assertUploadTransition(lifecycle[n - 1], lifecycle[n]),
+            );
+        }
+    });
+
+    it('can be restarted from any state', () => {
+        for (const state of Object.keys(
+            UploadStateTransitions,
+        ) as UploadStateName[]) {
+            if (state === 'NONE') continue;
+            assert.doesNotThrow(() => assertUploadTransition(state, 'NONE'));
+        }
+    });
+
+    it('rejects the transitions outside of the lifecycle', () => {
+        assert.throws(
+            () => assertUploadTransition('NONE', 'READY'),
+            isRejected(
+                `invalid upload state, it can't change from NONE to READY.`,
+            ),
+        );
+        assert.throws(
+            () =>
+                assertStateIn('upload', 'EXPIRED', ['NONE'], 'receive chunks'),
+            isRejected(
+                `invalid upload state, it must be NONE to receive chunks but it is EXPIRED.`,
+            ),
+        );
+    });
+});
@@ -0,0 +1,56 @@
+import { status } from '@grpc/grpc-js';
+import type { UploadState } from '~/proto/nextmu/v1/UploadState';
+import type { VersionState } from '~/proto/nextmu/v1/VersionState';
+import { ResponseError } from './error';
+
+export type VersionStateName = Extract<keyof typeof VersionState, string>;
+export type UploadStateName = Extract<keyof typeof UploadState, string>;
+
+/* States each state can change to, anything else is rejected */
+export const VersionStateTransitions: Partial<
+    Record<VersionStateName, VersionStateName[]>
+> = {
+    PENDING: ['PROCESSING', 'DELETING'],
+    PROCESSING: ['PENDING', 'READY', 'SCHEDULED'],
+    SCHEDULED: ['READY', 'DELETING'],
+    READY: ['REVOKED', 'DELETING'],
+    REVOKED: ['DELETING'],
+    DELETING: [],
+};
+
+/* Starting an upload with another file resets it to NONE from any state */
+export const UploadStateTransitions: Partial<
+    Record<UploadStateName, UploadStateName[]>
+> = {
+    NONE: ['PENDING', 'EXPIRED'],
+    PENDING: ['PROCESSING', 'NONE'],
+    PROCESSING: ['READY', 'PENDING', 'NONE'],
+    READY: ['NONE'],
+    EXPIRED: ['NONE'],
+};
+
+export const assertStateTransition = <Name extends string>(
+    kind: string,
+    transitions: Partial<Record<Name, Name[]>>,
+    from: Name,
+    to: Name,
+) => {
+    if (transitions[from]?.includes(to)) return;
+    throw new ResponseError(
+        status.FAILED_PRECONDITION,
+        `invalid ${kind} state, it can't change from ${from} to ${to}.`,
+    );
+};
+
+export const assertStateIn = <Name extends string>(
+    kind: string,
+    state: Name,
+    expected: Name[],
+    action: string,
+) => {
+    if (expected.includes(state)) return;
+    throw new ResponseError(
+        status.FAILED_PRECONDITION,
+        `invalid ${kind} state, it must be ${expected.join(' or ')} to ${action} but it is ${state}.`,
+    );
+};
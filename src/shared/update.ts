@@ -1,5 +1,49 @@
 export const updateCacheDuration = 8 * 60 * 60; // 8 Hours
 
+export enum ReleaseChannel {
+    Stable = 'stable',
+    Beta = 'beta',
+    Internal = 'internal',
+}
+
+/* Ordered from the most public channel, every channel also receives the versions of the previous ones */
+export const ReleaseChannels = [
+    ReleaseChannel.Stable,
+    ReleaseChannel.Beta,
+    ReleaseChannel.Internal,
+];
+
+export const getVisibleChannels = (channel: ReleaseChannel) =>
+    ReleaseChannels.slice(0, ReleaseChannels.indexOf(channel) + 1);
+
+/* Archives a build can be uploaded as, identified by their media type */
+export enum UploadArchiveType {
+    Zip = 'application/zip',
+    Tar = 'application/x-tar',
+    TarGzip = 'application/gzip',
+    TarZstd = 'application/zstd',
+}
+
+export const UploadArchiveExtensions: Record<UploadArchiveType, string> = {
+    [UploadArchiveType.Zip]: 'zip',
+    [UploadArchiveType.Tar]: 'tar',
+    [UploadArchiveType.TarGzip]: 'tar.gz',
+    [UploadArchiveType.TarZstd]: 'tar.zst',
+};
+
+/* Checksums an uploaded chunk can be verified with, values are hex encoded */
+export enum UploadChecksumAlgorithm {
+    CRC32C = 'crc32c',
+    SHA256 = 'sha256',
+}
+
+/* Version reported by clients with nothing installed yet */
+export const InitialVersion = { major: 0, minor: 0, revision: 0 };
+
+export const DefaultReleaseNotesLocale = 'en';
+export const ReleaseNotesMaxLength = 64 * 1024;
+export const UploadMaxFileSize = 5 * 1024 * 1024 * 1024; // 5GB
+
 export enum UpdatesCategories {
     General = 0,
 
@@ -66,6 +110,7 @@ export const UpdateTypeLookup = [
 
 export const incomingUpdatesPath = './tmp/incoming/';
 export const processedUpdatesPath = './tmp/processed/';
+export const deletionsManifestPath = '.nextmu/deleted.txt';
 export const incomingFolders = [
     'general',
 
@@ -1,4 +1,12 @@
+import { ObjectId } from 'mongodb';
 import { z } from 'zod';
+import { VersionState } from '~/proto/nextmu/v1/VersionState';
+import {
+    DefaultReleaseNotesLocale,
+    ReleaseChannel,
+    UploadArchiveType,
+    UploadMaxFileSize,
+} from '~/shared';
 
 export enum OperatingSystems {
     Windows,
@@ -20,6 +28,7 @@ export enum TextureFormat {
 }
 
 export const VersionRegex = /^(\d){1,2}\.(\d){1,3}\.(\d){1,5}$/;
+export const LocaleRegex = /^[a-z]{2,3}(-[a-zA-Z0-9]{2,8})?$/;
 
 export const ZRetrieveUpdateRequest = z.object({
     version: z.string().regex(VersionRegex),
@@ -28,8 +37,21 @@ export const ZRetrieveUpdateRequest = z.object({
 });
 export type IRetrieveUpdateRequest = z.infer<typeof ZRetrieveUpdateRequest>;
 
+export const ZRetrieveUpdateQuery = z.object({
+    channel: z.nativeEnum(ReleaseChannel).default(ReleaseChannel.Stable),
+    clientId: z.string().min(1).max(128).optional(),
+    target: z.string().regex(VersionRegex).optional(),
+    upgrade: z
+        .enum(['true', 'false', '1', '0'])
+        .transform((v) => v === 'true' || v === '1')
+        .default('false'),
+});
+export type IRetrieveUpdateQuery = z.infer<typeof ZRetrieveUpdateQuery>;
+
 export const ZRetrieveUpdateResponse = z.object({
     version: z.string().regex(VersionRegex),
+    mandatory: z.boolean(),
+    minimumVersion: z.string().regex(VersionRegex).nullable(),
     files: z.array(
         z.object({
             UrlPath: z.string(),
@@ -41,5 +63,127 @@ export const ZRetrieveUpdateResponse = z.object({
             CRC32: z.string(),
         }),
     ),
+    deletions: z.array(z.string()),
 });
 export type IRetrieveUpdateResponse = z.infer<typeof ZRetrieveUpdateResponse>;
+
+export const ZRetrieveNotesRequest = z.object({
+    version: z.string().regex(VersionRegex),
+});
+export type IRetrieveNotesRequest = z.infer<typeof ZRetrieveNotesRequest>;
+
+export const ZRetrieveNotesQuery = ZRetrieveUpdateQuery.extend({
+    locale: z.string().regex(LocaleRegex).default(DefaultReleaseNotesLocale),
+});
+export type IRetrieveNotesQuery = z.infer<typeof ZRetrieveNotesQuery>;
+
+export const ZRetrieveNotesResponse = z.object({
+    notes: z.array(
+        z.object({
+            version: z.string().regex(VersionRegex),
+            locale: z.string().regex(LocaleRegex),
+            content: z.string(),
+        }),
+    ),
+});
+export type IRetrieveNotesResponse = z.infer<typeof ZRetrieveNotesResponse>;
+
+export const ZDiffVersionsRequest = z.object({
+    id: z
+        .string()
+        .refine((v) => ObjectId.isValid(v))
+        .transform((v) => new ObjectId(v)),
+    targetId: z
+        .string()
+        .refine((v) => ObjectId.isValid(v))
+        .transform((v) => new ObjectId(v)),
+});
+export type IDiffVersionsRequest = z.infer<typeof ZDiffVersionsRequest>;
+
+const ZDiffVersionsGroup = z.object({
+    files: z.array(z.string()),
+    packedSize: z.number().int().min(0),
+    fileSize: z.number().int().min(0),
+});
+export type IDiffVersionsGroup = z.infer<typeof ZDiffVersionsGroup>;
+
+export const ZDiffVersionsResponse = z.object({
+    version: z.string().regex(VersionRegex),
+    targetVersion: z.string().regex(VersionRegex),
+    categories: z.array(
+        z.object({
+            category: z.number().int(),
+            added: ZDiffVersionsGroup,
+            removed: ZDiffVersionsGroup,
+            modified: ZDiffVersionsGroup,
+            unchanged: ZDiffVersionsGroup,
+        }),
+    ),
+});
+export type IDiffVersionsResponse = z.infer<typeof ZDiffVersionsResponse>;
+
+export enum VersionsSortField {
+    CreatedAt = 'createdAt',
+    Version = 'version',
+}
+
+export enum SortOrder {
+    Ascending = 'asc',
+    Descending = 'desc',
+}
+
+export const ZListVersionsQuery = z.object({
+    states: z
+        .preprocess(
+            (v) => (typeof v === 'string' ? v.split(',') : v),
+            z.array(z.coerce.number().pipe(z.nativeEnum(VersionState))).max(16),
+        )
+        .optional(),
+    minVersion: z.string().regex(VersionRegex).optional(),
+    maxVersion: z.string().regex(VersionRegex).optional(),
+    createdAfter: z.coerce.date().optional(),
+    createdBefore: z.coerce.date().optional(),
+    search: z.string().min(1).max(128).optional(),
+    sort: z.nativeEnum(VersionsSortField).default(VersionsSortField.CreatedAt),
+    order: z.nativeEnum(SortOrder).default(SortOrder.Descending),
+    cursor: z.string().min(1).max(512).optional(),
+    page: z.coerce.number().int().min(0).default(0),
+    size: z.coerce.number().int().multipleOf(5).min(5).max(50).default(20),
+});
+export type IListVersionsQuery = z.infer<typeof ZListVersionsQuery>;
+
+export const ZCreateUploadRequest = z.object({
+    versionId: z
+        .string()
+        .refine((v) => ObjectId.isValid(v))
+        .transform((v) => new ObjectId(v)),
+    hash: z
+        .string()
+        .length(64)
+        .regex(/^[a-fA-F\d]{64}$/),
+    filetype: z.nativeEnum(UploadArchiveType),
+    chunkSize: z.coerce
+        .number()
+        .multipleOf(2)
+        .min(16 * 1024)
+        .max(512 * 1024)
+        .default(512 * 1024),
+    fileSize: z.coerce
+        .number()
+        .int()
+        .min(1 * 1024)
+        .max(UploadMaxFileSize), // Min 1KB
+});
+export type ICreateUploadRequest = z.infer<typeof ZCreateUploadRequest>;
+
+export const ZUploadRequest = z.object({
+    uploadId: z
+        .string()
+        .refine((v) => ObjectId.isValid(v))
+        .transform((v) => new ObjectId(v)),
+    concurrentId: z
+        .string()
+        .refine((v) => ObjectId.isValid(v))
+        .transform((v) => new ObjectId(v)),
+});
+export type IUploadRequest = z.infer<typeof ZUploadRequest>;
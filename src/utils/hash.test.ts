@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { UploadChecksumAlgorithm } from '~/shared';
+import {
+    calculateBufferChecksum,
+    calculateCrc32c,
+    getRolloutBucket,
+} from './hash';
+
+describe('getRolloutBucket', () => {
+    it('keeps a client in the same bucket', () => {
+        assert.equal(getRolloutBucket('client-1'), 92);
+        assert.equal(getRolloutBucket('5f8d0d55b54764421b7156c3'), 4);
+        assert.equal(
+            getRolloutBucket('client-1'),
+            getRolloutBucket('client-1'),
+        );
+    });
+
+    it('spreads clients evenly over the buckets', () => {
+        const counts = new Array<number>(100).fill(0);
+        for (let n = 0; n < 10000; ++n) {
+            const bucket = getRolloutBucket(`client-${n}`);
+            assert.ok(Number.isInteger(bucket) && bucket >= 0 && bucket < 100);
+            ++counts[bucket];
+        }
+
+        /* A 25% rollout reaches about a quarter of the clients */
+        const reached = counts.slice(0, 25).reduce((a, b) => a + b, 0);
+        assert.ok(reached > 2300 && reached < 2700, `${reached} reached`);
+    });
+});
+
+describe('calculateCrc32c', () => {
+    it('matches the reference check values', () => {
+        assert.equal(calculateCrc32c(Buffer.from('123456789')), 'e3069283');
+        assert.equal(calculateCrc32c(Buffer.alloc(0)), '00000000');
+
+        /* RFC 3720 appendix B.4 */
+        assert.equal(calculateCrc32c(Buffer.alloc(32, 0x00)), '8a9136aa');
+        assert.equal(calculateCrc32c(Buffer.alloc(32, 0xff)), '62a8ab43');
+    });
+
+    it('pads the value to 8 hexadecimal digits', () => {
+        for (let n = 0; n < 256; ++n) {
+            assert.match(calculateCrc32c(Buffer.from([n])), /^[\da-f]{8}$/);
+        }
+    });
+});
+
+describe('calculateBufferChecksum', () => {
+    const data = Buffer.from('123456789');
+
+    it('computes the requested algorithm', () => {
+        assert.equal(
+            calculateBufferChecksum(data, UploadChecksumAlgorithm.CRC32C),
+            'e3069283',
+        );
+        assert.equal(
+            calculateBufferChecksum(data, UploadChecksumAlgorithm.SHA256),
+            '15e2b0d3c33891ebb0f1ef609ec419420c20e320ce94c65fbc8c3312448eb225',
+        );
+    });
+
+    it('detects a single changed byte', () => {
+        const corrupted = Buffer.from(data);
+        corrupted[4] ^= 0x01;
+        for (const algorithm of Object.values(UploadChecksumAlgorithm)) {
+            assert.notEqual(
+                calculateBufferChecksum(corrupted, algorithm),
+                calculateBufferChecksum(data, algorithm),
+            );
+        }
+    });
+});
@@ -1,5 +1,6 @@
 import * as crypto from 'node:crypto';
 import * as fs from 'node:fs';
+import { UploadChecksumAlgorithm } from '~/shared';
 
 export async function calculateFileHash(
     filePath: string,
@@ -23,3 +24,42 @@ export async function calculateFileHash(
         });
     });
 }
+
+/* Deterministic bucket in [0, 100) used to decide if a client is part of a staged rollout */
+export function getRolloutBucket(clientId: string): number {
+    const digest = crypto.createHash('sha256').update(clientId).digest();
+    return digest.readUInt32BE(0) % 100;
+}
+
+/* CRC-32C (Castagnoli) lookup table, reflected polynomial 0x82F63B78 */
+const Crc32cTable = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; ++n) {
+        let c = n;
+        for (let k = 0; k < 8; ++k) {
+            c = c & 1 ? 0x82f63b78 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export function calculateCrc32c(data: Buffer): string {
+    let crc = 0xffffffff;
+    for (const byte of data) {
+        crc = Crc32cTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0');
+}
+
+export function calculateBufferChecksum(
+    data: Buffer,
+    algorithm: UploadChecksumAlgorithm,
+): string {
+    switch (algorithm) {
+        case UploadChecksumAlgorithm.CRC32C:
+            return calculateCrc32c(data);
+        case UploadChecksumAlgorithm.SHA256:
+            return crypto.createHash('sha256').update(data).digest('hex');
+    }
+}
@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { compareVersions } from '.';
+
+const version = (major: number, minor: number, revision: number) => ({
+    major,
+    minor,
+    revision,
+});
+
+describe('compareVersions', () => {
+    it('returns zero for the same version', () => {
+        assert.equal(compareVersions(version(1, 2, 3), version(1, 2, 3)), 0);
+    });
+
+    it('compares the major, then the minor, then the revision', () => {
+        assert.ok(compareVersions(version(1, 9, 9), version(2, 0, 0)) < 0);
+        assert.ok(compareVersions(version(1, 2, 9), version(1, 3, 0)) < 0);
+        assert.ok(compareVersions(version(1, 2, 3), version(1, 2, 4)) < 0);
+        assert.ok(compareVersions(version(2, 0, 0), version(1, 9, 9)) > 0);
+    });
+
+    it('orders numbers numerically instead of as strings', () => {
+        assert.ok(compareVersions(version(1, 10, 0), version(1, 9, 0)) > 0);
+        assert.ok(compareVersions(version(1, 0, 2), version(1, 0, 10)) < 0);
+    });
+
+    it('sorts versions from the oldest one', () => {
+        const versions = [
+            version(1, 10, 0),
+            version(1, 2, 0),
+            version(0, 0, 0),
+            version(1, 2, 10),
+            version(1, 2, 9),
+        ];
+        assert.deepEqual(versions.sort(compareVersions), [
+            version(0, 0, 0),
+            version(1, 2, 0),
+            version(1, 2, 9),
+            version(1, 2, 10),
+            version(1, 10, 0),
+        ]);
+    });
+});
@@ -7,6 +7,7 @@ import type {
     Timestamp__Output,
 } from '~/proto/google/protobuf/Timestamp';
 import type { IVersion } from '~/services/mongodb/schemas/updates/versions';
+import { UploadArchiveExtensions, UploadArchiveType } from '~/shared';
 
 export const toTimestamp = (date: Date): Timestamp => {
     const time = date.getTime();
@@ -28,6 +29,18 @@ export const fromTimestamp = (timestamp: Timestamp__Output): Date => {
 export const getVersionAsString = (version: IVersion) =>
     `${version.major}.${version.minor}.${version.revision}`;
 
+export const getVersionFromString = (version: string): IVersion => {
+    const [major, minor, revision] = version.split('.');
+    return {
+        major: +major,
+        minor: +minor,
+        revision: +revision,
+    };
+};
+
+export const compareVersions = (a: IVersion, b: IVersion) =>
+    a.major - b.major || a.minor - b.minor || a.revision - b.revision;
+
 export type FileInfo = {
     fullPath: string;
     path: string;
@@ -80,10 +93,29 @@ export const getInputFolder = (
     concurrentId: string,
 ) =>
     `${uploadId.toUpperCase()}/${hash.toUpperCase()}/${concurrentId.toUpperCase()}`;
-export const getUploadFile = (versionId: string) =>
-    `${versionId.toUpperCase()}.zip`;
+export const getInputChunkFile = (folder: string, offset: number) =>
+    `${folder}/${offset.toString().padStart(8, '0')}.data`;
+export const getInputUploadFolder = (uploadId: string) =>
+    `${uploadId.toUpperCase()}/`;
+export const getUploadFile = (
+    versionId: string,
+    type: UploadArchiveType = UploadArchiveType.Zip,
+) => `${versionId.toUpperCase()}.${UploadArchiveExtensions[type]}`;
 export const getOutputFolder = (versionId: string) =>
     `${versionId.toUpperCase()}/`;
+export const getPublishFolder = (versionId: string) =>
+    `publish/${versionId.toUpperCase()}/`;
+
+/* Client relative path using forward slashes, null if it escapes the client folder */
+export const normalizeLocalPath = (localPath: string) => {
+    const segments = localPath
+        .trim()
+        .replace(/\\/g, '/')
+        .split('/')
+        .filter((segment) => segment.length > 0 && segment !== '.');
+    if (segments.length === 0 || segments.includes('..')) return null;
+    return segments.join('/');
+};
 
 export const getMissingRanges = (
     existingParts: number[],
@@ -0,0 +1,347 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { compareVersions } from '.';
+import {
+    applyDeletions,
+    compareBuildFiles,
+    getLatestDeletions,
+    isHistoryShared,
+    mergeRevokedChanges,
+    resolveFilesState,
+    selectClientVersions,
+} from './updates';
+
+const version = (major: number, minor: number, revision: number) => ({
+    version: { major, minor, revision },
+});
+
+describe('selectClientVersions', () => {
+    const published = [
+        version(1, 4, 6),
+        version(1, 4, 7),
+        version(1, 5, 0),
+        version(2, 0, 0),
+        version(2, 0, 1),
+    ];
+    const newer = (client: ReturnType<typeof version>) =>
+        published.filter(
+            ({ version }) => compareVersions(version, client.version) > 0,
+        );
+
+    it('keeps the client on its hotfix line', () => {
+        const client = version(1, 4, 5);
+        assert.deepEqual(
+            selectClientVersions(client.version, newer(client), false, null),
+            [version(1, 4, 6), version(1, 4, 7)],
+        );
+    });
+
+    it('gives nothing to the latest revision of a line without upgrade', () => {
+        const client = version(1, 4, 7);
+        assert.deepEqual(
+            selectClientVersions(client.version, newer(client), false, null),
+            [],
+        );
+    });
+
+    it('moves the client to the next lines when upgrading', () => {
+        const client = version(1, 4, 7);
+        assert.deepEqual(
+            selectClientVersions(client.version, newer(client), true, null),
+            [version(1, 5, 0), version(2, 0, 0), version(2, 0, 1)],
+        );
+    });
+
+    it('stops before a staged rollout the client is not part of', () => {
+        const client = version(1, 4, 7);
+        const versions = [
+            version(1, 5, 0),
+            { ...version(2, 0, 0), rollout: 25 },
+            version(2, 0, 1),
+        ];
+        assert.deepEqual(
+            selectClientVersions(client.version, versions, true, 24),
+            versions,
+        );
+        assert.deepEqual(
+            selectClientVersions(client.version, versions, true, 25),
+            [version(1, 5, 0)],
+        );
+        assert.deepEqual(
+            selectClientVersions(client.version, versions, true, null),
+            [version(1, 5, 0)],
+        );
+    });
+});
+
+describe('isHistoryShared', () => {
+    const published = (
+        major: number,
+        minor: number,
+        revision: number,
+        createdAt: number,
+        updatedAt = createdAt,
+    ) => ({
+        ...version(major, minor, revision),
+        createdAt: new Date(createdAt),
+        updatedAt: new Date(updatedAt),
+    });
+
+    it('accepts revisions published before the next line', () => {
+        assert.equal(
+            isHistoryShared([
+                published(1, 0, 0, 1),
+                published(1, 0, 1, 2),
+                published(1, 1, 0, 3),
+                published(1, 1, 1, 4),
+            ]),
+            true,
+        );
+    });
+
+    it('rejects a hotfix published after a newer line was created', () => {
+        assert.equal(
+            isHistoryShared([
+                published(1, 0, 0, 1),
+                published(1, 0, 1, 4),
+                published(1, 1, 0, 3),
+            ]),
+            false,
+        );
+        assert.equal(
+            isHistoryShared([
+                published(1, 0, 0, 1),
+                published(1, 0, 1, 2, 5),
+                published(1, 1, 0, 3),
+                published(2, 0, 0, 4),
+            ]),
+            false,
+        );
+    });
+
+    it('rejects a version under a staged rollout', () => {
+        assert.equal(
+            isHistoryShared([
+                published(1, 0, 0, 1),
+                { ...published(1, 0, 1, 2), rollout: 50 },
+            ]),
+            false,
+        );
+    });
+});
+
+describe('mergeRevokedChanges', () => {
+    it('restores the revoked paths to the last good version', () => {
+        const { files, deletions } = mergeRevokedChanges(
+            ['data/a.bmd', 'data/b.bmd', 'data/c.bmd'],
+            new Map([
+                ['data/a.bmd', '1.0.0'],
+                ['data/b.bmd', '1.0.0'],
+            ]),
+            new Map([['data/b.bmd', '1.0.2']]),
+            new Set<string>(),
+        );
+
+        assert.deepEqual(
+            files,
+            new Map([
+                ['data/a.bmd', '1.0.0'],
+                ['data/b.bmd', '1.0.2'],
+            ]),
+        );
+        assert.deepEqual(deletions, new Set(['data/c.bmd']));
+    });
+
+    it('reinstalls the channel without an older good version', () => {
+        const { files, deletions } = mergeRevokedChanges(
+            ['data/a.bmd', 'data/b.bmd'],
+            new Map(),
+            new Map([
+                ['data/a.bmd', '1.0.1'],
+                ['data/d.bmd', '1.0.1'],
+            ]),
+            new Set(['data/e.bmd']),
+        );
+
+        assert.deepEqual(
+            files,
+            new Map([
+                ['data/a.bmd', '1.0.1'],
+                ['data/d.bmd', '1.0.1'],
+            ]),
+        );
+        assert.deepEqual(deletions, new Set(['data/b.bmd', 'data/e.bmd']));
+    });
+
+    it('removes every revoked path when nothing is left to install', () => {
+        const { files, deletions } = mergeRevokedChanges(
+            ['data/a.bmd', 'data/b.bmd'],
+            new Map(),
+            new Map(),
+            new Set<string>(),
+        );
+
+        assert.equal(files.size, 0);
+        assert.deepEqual(deletions, new Set(['data/a.bmd', 'data/b.bmd']));
+    });
+});
+
+describe('getLatestDeletions', () => {
+    it('keeps the newest version deleting each path', () => {
+        const older = version(1, 0, 1);
+        const newer = version(1, 0, 10);
+        const deletions = getLatestDeletions([
+            { localPath: 'data/a.bmd', version: newer },
+            { localPath: 'data/a.bmd', version: older },
+            { localPath: 'data/b.bmd', version: older },
+        ]);
+
+        assert.equal(deletions.size, 2);
+        assert.equal(deletions.get('data/a.bmd'), newer);
+        assert.equal(deletions.get('data/b.bmd'), older);
+    });
+});
+
+describe('applyDeletions', () => {
+    it('removes the files updated before their deletion', () => {
+        const files = new Map([
+            ['data/a.bmd', { version: version(1, 0, 1) }],
+            ['data/b.bmd', { version: version(1, 0, 3) }],
+        ]);
+        const deleted = applyDeletions(
+            files,
+            new Map([['data/a.bmd', version(1, 0, 2)]]),
+        );
+
+        assert.deepEqual([...deleted], ['data/a.bmd']);
+        assert.deepEqual([...files.keys()], ['data/b.bmd']);
+    });
+
+    it('keeps the files updated again by the same or a newer version', () => {
+        const files = new Map([
+            ['data/a.bmd', { version: version(1, 0, 2) }],
+            ['data/b.bmd', { version: version(1, 1, 0) }],
+        ]);
+        const deleted = applyDeletions(
+            files,
+            new Map([
+                ['data/a.bmd', version(1, 0, 2)],
+                ['data/b.bmd', version(1, 0, 2)],
+            ]),
+        );
+
+        assert.equal(deleted.size, 0);
+        assert.equal(files.size, 2);
+    });
+
+    it('reports paths the client may have from versions it already has', () => {
+        const files = new Map<
+            string,
+            { version: ReturnType<typeof version> }
+        >();
+        const deleted = applyDeletions(
+            files,
+            new Map([['data/old.bmd', version(1, 0, 2)]]),
+        );
+
+        assert.deepEqual([...deleted], ['data/old.bmd']);
+    });
+});
+
+describe('resolveFilesState', () => {
+    const file = (localPath: string, category: number, crc32: string) => ({
+        localPath,
+        category,
+        crc32,
+    });
+
+    it('keeps the newest file per category and path', () => {
+        const older = version(1, 0, 1);
+        const newer = version(1, 0, 2);
+        const state = resolveFilesState(
+            [
+                { version: newer, file: file('data/a.bmd', 0, 'new') },
+                { version: older, file: file('data/a.bmd', 0, 'old') },
+                { version: older, file: file('data/a.bmd', 1, 'other') },
+            ],
+            new Map(),
+        );
+
+        assert.equal(state.size, 2);
+        assert.equal(state.get('0:data/a.bmd')!.file.crc32, 'new');
+        assert.equal(state.get('1:data/a.bmd')!.file.crc32, 'other');
+    });
+
+    it('leaves out the files updated before the deletion of their path', () => {
+        const state = resolveFilesState(
+            [
+                {
+                    version: version(1, 0, 1),
+                    file: file('data/a.bmd', 0, 'a'),
+                },
+                {
+                    version: version(1, 0, 3),
+                    file: file('data/a.bmd', 1, 'a'),
+                },
+                {
+                    version: version(1, 0, 2),
+                    file: file('data/b.bmd', 0, 'b'),
+                },
+            ],
+            new Map([
+                ['data/a.bmd', version(1, 0, 2)],
+                ['data/b.bmd', version(1, 0, 2)],
+            ]),
+        );
+
+        assert.deepEqual([...state.keys()], ['1:data/a.bmd', '0:data/b.bmd']);
+    });
+});
+
+describe('compareBuildFiles', () => {
+    const file = (localPath: string, crc32: string, fileSize: number) => ({
+        localPath,
+        crc32,
+        fileSize,
+    });
+    const baseFiles = [
+        file('data/a.bmd', 'aaaaaaaa', 10),
+        file('data/b.bmd', 'bbbbbbbb', 20),
+        file('data/c.bmd', 'cccccccc', 30),
+    ];
+
+    it('needs the new and changed files only', () => {
+        const { neededPaths, deletedPaths } = compareBuildFiles(baseFiles, [
+            file('data/a.bmd', 'aaaaaaaa', 10),
+            file('data/b.bmd', 'b0b0b0b0', 20),
+            file('data/c.bmd', 'cccccccc', 31),
+            file('data/d.bmd', 'dddddddd', 40),
+        ]);
+
+        assert.deepEqual(neededPaths, [
+            'data/b.bmd',
+            'data/c.bmd',
+            'data/d.bmd',
+        ]);
+        assert.deepEqual(deletedPaths, []);
+    });
+
+    it('deletes the base files missing from the build', () => {
+        const { neededPaths, deletedPaths } = compareBuildFiles(baseFiles, [
+            file('data/a.bmd', 'aaaaaaaa', 10),
+        ]);
+
+        assert.deepEqual(neededPaths, []);
+        assert.deepEqual(deletedPaths, ['data/b.bmd', 'data/c.bmd']);
+    });
+
+    it('needs every file without a base version', () => {
+        const { neededPaths, deletedPaths } = compareBuildFiles([], baseFiles);
+
+        assert.deepEqual(
+            neededPaths,
+            baseFiles.map((file) => file.localPath),
+        );
+        assert.deepEqual(deletedPaths, []);
+    });
+});
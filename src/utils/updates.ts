@@ -0,0 +1,214 @@
+import type { IVersion } from '~/services/mongodb/schemas/updates/versions';
+import { compareVersions } from '.';
+
+interface IVersioned {
+    version: IVersion;
+}
+
+/*
+    Versions a client receives among the newer published ones, ordered from the oldest one.
+    Without upgrading it only receives the revisions of its hotfix line, and it stops
+    before the first version under a staged rollout its bucket isn't part of.
+*/
+export const selectClientVersions = <
+    V extends IVersioned & { rollout?: number },
+>(
+    clientVersion: IVersion,
+    versions: V[],
+    upgrade: boolean,
+    rolloutBucket: number | null,
+) => {
+    const selected = upgrade
+        ? versions
+        : versions.filter(
+              ({ version }) =>
+                  version.major === clientVersion.major &&
+                  version.minor === clientVersion.minor,
+          );
+    const rolloutIndex = selected.findIndex(
+        (version) =>
+            version.rollout != null &&
+            version.rollout < 100 &&
+            (rolloutBucket == null || rolloutBucket >= version.rollout),
+    );
+    return rolloutIndex >= 0 ? selected.slice(0, rolloutIndex) : selected;
+};
+
+/*
+    True when every client at the last of the versions, ordered from the oldest one, received
+    all of them. A client can upgrade past a hotfix line before a revision of it is published,
+    or stop before a version under a staged rollout.
+*/
+export const isHistoryShared = (
+    versions: (IVersioned & {
+        rollout?: number;
+        createdAt: Date;
+        updatedAt: Date;
+    })[],
+) => {
+    if (
+        versions.some(
+            (version) => version.rollout != null && version.rollout < 100,
+        )
+    ) {
+        return false;
+    }
+
+    /* The revisions of a line must be published before any newer line is created */
+    let newerLinesCreatedAt = Infinity;
+    let lineCreatedAt = Infinity;
+    for (let n = versions.length - 1; n >= 0; --n) {
+        const { version, createdAt, updatedAt } = versions[n];
+        const next = versions[n + 1];
+        if (
+            next != null &&
+            (next.version.major !== version.major ||
+                next.version.minor !== version.minor)
+        ) {
+            newerLinesCreatedAt = Math.min(newerLinesCreatedAt, lineCreatedAt);
+            lineCreatedAt = Infinity;
+        }
+
+        if (updatedAt.getTime() > newerLinesCreatedAt) return false;
+        lineCreatedAt = Math.min(lineCreatedAt, createdAt.getTime());
+    }
+
+    return true;
+};
+
+/*
+    Restores the paths of the revoked versions a client is on to its last good version, with
+    the updates applied over them. The restored paths missing from the files are removed.
+*/
+export const mergeRevokedChanges = <F>(
+    revokedPaths: string[],
+    restoredFiles: Map<string, F>,
+    files: Map<string, F>,
+    deletions: Set<string>,
+) => {
+    const merged = new Map([...restoredFiles, ...files]);
+    for (const localPath of deletions) {
+        merged.delete(localPath);
+    }
+
+    return {
+        files: merged,
+        deletions: new Set(
+            [...revokedPaths, ...deletions].filter(
+                (localPath) => !merged.has(localPath),
+            ),
+        ),
+    };
+};
+
+/* Latest version deleting each local path */
+export const getLatestDeletions = <V extends IVersioned>(
+    deletions: { localPath: string; version: V }[],
+) => {
+    const latest = new Map<string, V>();
+    for (const { localPath, version } of deletions) {
+        const current = latest.get(localPath);
+        if (
+            current == null ||
+            compareVersions(current.version, version.version) < 0
+        ) {
+            latest.set(localPath, version);
+        }
+    }
+    return latest;
+};
+
+/*
+    Removes the files deleted by a version newer than their last update,
+    a file updated by the same version that deletes it is kept.
+    Returns the paths the client has to delete.
+*/
+export const applyDeletions = (
+    files: Map<string, { version: IVersioned }>,
+    deletions: Map<string, IVersioned>,
+) => {
+    const deleted = new Set<string>();
+    for (const [localPath, version] of deletions) {
+        const file = files.get(localPath);
+        if (
+            file != null &&
+            compareVersions(file.version.version, version.version) >= 0
+        ) {
+            continue;
+        }
+
+        files.delete(localPath);
+        deleted.add(localPath);
+    }
+    return deleted;
+};
+
+/*
+    Latest file per category and local path, the files updated before the
+    latest deletion of their path are left out.
+*/
+export const resolveFilesState = <
+    V extends IVersioned,
+    F extends { localPath: string; category: number },
+>(
+    files: { version: V; file: F }[],
+    deletions: Map<string, V>,
+) => {
+    const state = new Map<string, { version: V; file: F }>();
+    for (const entry of files) {
+        const key = `${entry.file.category}:${entry.file.localPath}`;
+        const current = state.get(key);
+        if (
+            current == null ||
+            compareVersions(current.version.version, entry.version.version) < 0
+        ) {
+            state.set(key, entry);
+        }
+    }
+
+    for (const [key, { version, file }] of state) {
+        const deletion = deletions.get(file.localPath);
+        if (
+            deletion != null &&
+            compareVersions(version.version, deletion.version) < 0
+        ) {
+            state.delete(key);
+        }
+    }
+
+    return state;
+};
+
+interface IComparedFile {
+    localPath: string;
+    crc32: string;
+    fileSize: number;
+}
+
+/*
+    Paths of a new build whose content differs from the base files, and paths
+    of the base files the new build doesn't have anymore.
+*/
+export const compareBuildFiles = (
+    baseFiles: IComparedFile[],
+    files: IComparedFile[],
+) => {
+    const basePaths = new Map(baseFiles.map((file) => [file.localPath, file]));
+    const paths = new Set(files.map((file) => file.localPath));
+
+    return {
+        neededPaths: files
+            .filter((file) => {
+                const baseFile = basePaths.get(file.localPath);
+                return (
+                    baseFile == null ||
+                    baseFile.crc32 !== file.crc32 ||
+                    baseFile.fileSize !== file.fileSize
+                );
+            })
+            .map((file) => file.localPath),
+        deletedPaths: Array.from(basePaths.keys()).filter(
+            (localPath) => !paths.has(localPath),
+        ),
+    };
+};
@@ -0,0 +1,58 @@
+import { status } from '@grpc/grpc-js';
+import assert from 'node:assert/strict';
+import { Readable } from 'node:stream';
+import { describe, it } from 'node:test';
+import { ResponseError } from '~/shared/error';
+import { splitUploadChunks } from './uploads';
+
+/* 2.5 chunks of 1KB */
+const upload = {
+    chunkSize: 1024,
+    chunksCount: 3,
+    fileSize: 2560,
+};
+
+const split = async (offset: number, buffers: Buffer[]) => {
+    const chunks: { offset: number; length: number }[] = [];
+    for await (const chunk of splitUploadChunks(
+        upload,
+        offset,
+        Readable.from(buffers),
+    )) {
+        chunks.push({ offset: chunk.offset, length: chunk.data.byteLength });
+    }
+    return chunks;
+};
+
+const isBadRequest = (error: unknown) =>
+    error instanceof ResponseError && error.code === status.INVALID_ARGUMENT;
+
+describe('splitUploadChunks', () => {
+    it('splits the data in whole chunks whatever the body buffers are', async () => {
+        assert.deepEqual(
+            await split(0, [Buffer.alloc(100), Buffer.alloc(1948)]),
+            [
+                { offset: 0, length: 1024 },
+                { offset: 1, length: 1024 },
+            ],
+        );
+    });
+
+    it('ends with the shorter last chunk', async () => {
+        assert.deepEqual(await split(2048, [Buffer.alloc(512)]), [
+            { offset: 2, length: 512 },
+        ]);
+    });
+
+    it('rejects a PATCH smaller than one chunk', async () => {
+        await assert.rejects(split(0, [Buffer.alloc(100)]), isBadRequest);
+    });
+
+    it('rejects a body ending partway through a chunk', async () => {
+        await assert.rejects(split(0, [Buffer.alloc(1500)]), isBadRequest);
+    });
+
+    it('rejects data past the upload length', async () => {
+        await assert.rejects(split(2048, [Buffer.alloc(513)]), isBadRequest);
+    });
+});
@@ -0,0 +1,61 @@
+import { status } from '@grpc/grpc-js';
+import { ResponseError } from '~/shared/error';
+
+interface IUploadLayout {
+    chunkSize: number;
+    chunksCount: number;
+    fileSize: number;
+}
+
+const getChunkLength = (upload: IUploadLayout, offset: number) =>
+    offset === upload.chunksCount - 1
+        ? upload.fileSize - upload.chunkSize * (upload.chunksCount - 1)
+        : upload.chunkSize;
+
+/*
+    Splits the data written from a chunk boundary in whole chunks, it must end
+    on a chunk boundary or at the upload length since chunks are only stored whole.
+*/
+export async function* splitUploadChunks(
+    upload: IUploadLayout,
+    offset: number,
+    stream: AsyncIterable<Buffer>,
+) {
+    let chunkOffset = Math.floor(offset / upload.chunkSize);
+    let buffers: Buffer[] = [];
+    let buffered = 0;
+    for await (const data of stream) {
+        let buffer = data;
+        while (buffer.byteLength > 0) {
+            if (chunkOffset >= upload.chunksCount) {
+                throw new ResponseError(
+                    status.INVALID_ARGUMENT,
+                    'invalid upload data, it exceeds the upload length.',
+                );
+            }
+
+            const chunkLength = getChunkLength(upload, chunkOffset);
+            const length = Math.min(chunkLength - buffered, buffer.byteLength);
+            buffers.push(buffer.subarray(0, length));
+            buffered += length;
+            buffer = buffer.subarray(length);
+
+            if (buffered < chunkLength) continue;
+
+            yield {
+                offset: chunkOffset,
+                data: Buffer.concat(buffers),
+            };
+            ++chunkOffset;
+            buffers = [];
+            buffered = 0;
+        }
+    }
+
+    if (buffered > 0) {
+        throw new ResponseError(
+            status.INVALID_ARGUMENT,
+            `invalid upload data, it must end on a chunk boundary (every ${upload.chunkSize} bytes) or at the upload length.`,
+        );
+    }
+}